@@ -12,16 +12,26 @@ import { publishCommand } from '../commands/publish.js';
 import { addCommand } from '../commands/add.js';
 import { migrateCommand } from '../commands/migrate.js';
 import { docsCommand } from '../commands/docs.js';
-import { initializeGenerators } from '../generators/index.js';
+import { updateCommand } from '../commands/update.js';
+import { templatesCommand } from '../commands/templates.js';
+import { versionsCommand } from '../commands/versions.js';
+import { initializeGenerators, loadGeneratorPlugins } from '../generators/index.js';
 import { logger } from '../core/logger.js';
+import { loadScaffoldConfig } from '../core/config.js';
+import { templateEngine } from '../core/template-engine.js';
+import { versionCatalog } from '../core/versions.js';
+import { CLI_VERSION } from '../core/constants.js';
 
 // Initialize generators
 initializeGenerators();
 
 // Package info
-const VERSION = '1.0.0-alpha.1';
+const VERSION = CLI_VERSION;
 const NAME = 'scaffold-kit';
 
+// Commands that render generators, and so need generator plugins loaded first
+const GENERATOR_COMMANDS = new Set(['create', 'update', 'templates', 'info']);
+
 // ASCII art banner
 const BANNER = chalk.cyan(`
    _____            __  __      _    _  ___ __ 
@@ -39,15 +49,113 @@ program
     .name(NAME)
     .version(VERSION)
     .description('Production-grade CLI for creating, validating, and publishing JavaScript/TypeScript packages')
-    .addHelpText('beforeAll', BANNER);
+    .addHelpText('beforeAll', BANNER)
+    .option('--strict-templates', 'Fail on undefined variables and unknown helpers in templates')
+    .option('--no-strict-templates', 'Only warn about undefined variables and unknown helpers')
+    .hook('preAction', async (_program, actionCommand) => {
+        try {
+            // Invalid config fields are left out and reported
+            const { config, layers, issues } = await loadScaffoldConfig();
+            logger.issues(issues);
+
+            // Generator plugins, only for the commands that use generators; invalid ones are skipped and reported
+            if (GENERATOR_COMMANDS.has(actionCommand.name())) {
+                logger.issues(await loadGeneratorPlugins());
+            }
+
+            // Template strictness: flag, then scaffold config, then the engine's default
+            const strictTemplates = program.opts().strictTemplates ?? config.strictTemplates;
+            if (strictTemplates !== undefined) {
+                templateEngine.setStrictness(strictTemplates ? 'strict' : 'lenient');
+            }
+
+            // Dependency versions from user and project config
+            versionCatalog.applyOverrides(layers);
+        } catch (error) {
+            handleError(error);
+        }
+    });
 
 // Create command
 program
     .command('create [name]')
     .description('Create a new package with interactive wizard')
-    .action(async (name?: string) => {
+    .option('--framework <framework>', 'Framework (react, vue, svelte, vanilla, node)')
+    .option('--generator <id>', 'Generator to use when a framework has several (see "scaffold info")')
+    .option('--template <path-or-url>', 'Custom template directory or git URL (with a scaffold.template.json)')
+    .option('--type <type>', 'Package type (library, plugin, utility, cli, sdk)')
+    .option('--build <build>', 'Build system (tsup, vite, rollup, unbuild, esbuild)')
+    .option('--format <format>', 'Module format (esm, cjs, dual)')
+    .option('--target <target>', 'Runtime target (browser, node, universal, edge)')
+    .option('--pm <pm>', 'Package manager (npm, pnpm, yarn, bun)')
+    .option('--license <license>', 'License identifier (e.g., MIT)')
+    .option('--description <description>', 'Package description')
+    .option('--author <author>', 'Package author')
+    .option('--repository <url>', 'Repository URL')
+    .option('--example', 'Include an example application')
+    .option('--no-example', 'Skip the example application')
+    .option(
+        '--export <subpath>',
+        'Subpath export with its own entry point, e.g. ./components or ./icons/* (repeatable)',
+        (value: string, previous: string[] = []) => [...previous, value]
+    )
+    .option('--styling <styling>', 'Component styling (none, css, css-modules, tailwind, vanilla-extract)')
+    .option('--preset <preset>', 'Preset (minimal, standard, enterprise, component-library, or a custom preset)')
+    .option('-y, --yes', 'Accept defaults for any answer not provided and skip confirmation')
+    .option('--answers <file>', 'Read answers from a JSON file')
+    .option('--save-answers <file>', 'Write the collected answers to a JSON file')
+    .option('-d, --dry-run', 'Preview the generated files without writing them')
+    .option('--show-contents', 'With --dry-run, print the contents of every file')
+    .option('--diff <dir>', 'With --dry-run, show a unified diff against an existing directory')
+    .option('-f, --force', 'Overwrite files in a non-empty output directory without asking')
+    .option('--git', 'Initialize a git repository with an initial commit')
+    .option('--no-git', 'Skip git initialization')
+    .option('--install', 'Install dependencies with the selected package manager')
+    .option('--no-install', 'Skip installing dependencies')
+    .option('--husky', 'Set up husky git hooks (presets with husky)')
+    .option('--no-husky', 'Skip husky setup')
+    .option('--format-config', 'Add a .prettierrc and .editorconfig matching the formatting')
+    .option('--no-format-config', 'Don\'t add formatting config files')
+    .option('--workspace', 'Create a monorepo workspace, with packages generated under packages/')
+    .option('--no-workspace', 'Inside an existing workspace, create a standalone package in the current directory')
+    .option(
+        '--package <spec>',
+        'With --workspace, a package to generate as <name>:<framework>[:<dependency>+...] (repeatable)',
+        (value: string, previous: string[] = []) => [...previous, value]
+    )
+    .action(async (name?: string, options?) => {
         try {
-            await createCommand(name);
+            await createCommand(name, {
+                framework: options?.framework,
+                generator: options?.generator,
+                template: options?.template,
+                type: options?.type,
+                build: options?.build,
+                format: options?.format,
+                target: options?.target,
+                pm: options?.pm,
+                license: options?.license,
+                description: options?.description,
+                author: options?.author,
+                repository: options?.repository,
+                example: options?.example,
+                exports: options?.export,
+                styling: options?.styling,
+                preset: options?.preset,
+                yes: options?.yes,
+                answers: options?.answers,
+                saveAnswers: options?.saveAnswers,
+                dryRun: options?.dryRun,
+                showContents: options?.showContents,
+                diff: options?.diff,
+                force: options?.force,
+                git: options?.git,
+                install: options?.install,
+                husky: options?.husky,
+                formatConfig: options?.formatConfig,
+                workspace: options?.workspace,
+                packages: options?.package,
+            });
         } catch (error) {
             handleError(error);
         }
@@ -156,6 +264,57 @@ program
         }
     });
 
+// Update command
+program
+    .command('update')
+    .description('Re-apply the current templates to a generated package, merging with local changes')
+    .option('-d, --dry-run', 'Show what would change without writing')
+    .option('--markers', 'Write conflict markers instead of resolving conflicts interactively')
+    .action(async (options) => {
+        try {
+            await updateCommand({
+                dryRun: options.dryRun,
+                markers: options.markers,
+            });
+        } catch (error) {
+            handleError(error);
+        }
+    });
+
+// Templates command
+program
+    .command('templates [subcommand] [path]')
+    .description('List templates and where they resolve from, eject one to override it, or lint them (list, eject, lint)')
+    .option('--resolved', 'With list, show the layer each template is loaded from')
+    .option('--variables', 'With lint, list the variables, helpers and partials each template uses')
+    .option('--to <dir>', 'With eject, the override directory to copy into')
+    .option('-f, --force', 'With eject, replace an existing override')
+    .action(async (subcommand?: string, templatePath?: string, options?) => {
+        try {
+            await templatesCommand(subcommand, templatePath, {
+                resolved: options?.resolved,
+                to: options?.to,
+                force: options?.force,
+                variables: options?.variables,
+            });
+        } catch (error) {
+            handleError(error);
+        }
+    });
+
+// Versions command
+program
+    .command('versions')
+    .description('Print the dependency versions new packages get, with overrides from scaffold config')
+    .option('--json', 'Print the catalog as JSON')
+    .action(async (options?) => {
+        try {
+            await versionsCommand({ json: options?.json });
+        } catch (error) {
+            handleError(error);
+        }
+    });
+
 // Docs command
 program
     .command('docs [subcommand]')
@@ -188,9 +347,11 @@ program
         const generators = registry.getAllMeta();
 
         for (const meta of generators) {
+            const source = registry.getSource(meta.id);
             console.log();
             console.log(`  ${chalk.cyan(meta.name)} ${chalk.dim(`(${meta.framework})`)}`);
             console.log(`    ${meta.description}`);
+            console.log(`    ${chalk.dim('Source:')} ${source?.kind === 'builtin' ? 'built-in' : `${source?.kind} ${source?.name}`}`);
             console.log(`    ${chalk.dim('Types:')} ${meta.supportedPackageTypes.join(', ')}`);
             console.log(`    ${chalk.dim('Targets:')} ${meta.supportedRuntimeTargets.join(', ')}`);
         }
@@ -200,7 +361,7 @@ program
     });
 
 // Parse arguments
-program.parse();
+await program.parseAsync();
 
 // Handle errors
 function handleError(error: unknown): void {
@@ -7,7 +7,10 @@ import fs from 'fs-extra';
 import chalk from 'chalk';
 import { input, select, confirm } from '@inquirer/prompts';
 import { logger } from '../core/logger.js';
-import type { Framework } from '../types/index.js';
+import { readManifest, getSourceDir } from '../core/manifest.js';
+import { getRunCommand } from '../core/post-generate.js';
+import { resolveFormatting, formatContent } from '../core/formatting.js';
+import type { Framework, PackageManager } from '../types/index.js';
 
 /**
  * Add command options
@@ -27,6 +30,9 @@ interface ProjectInfo {
     srcPath: string;
     hasTests: boolean;
     usesTypescript: boolean;
+    packageManager: PackageManager;
+    /** Whether the project info came from the generation manifest rather than guessed */
+    fromManifest: boolean;
 }
 
 /**
@@ -45,7 +51,7 @@ export async function addCommand(itemType?: string, itemName?: string, options:
         process.exit(1);
     }
 
-    logger.keyValue('Framework', projectInfo.framework);
+    logger.keyValue('Framework', `${projectInfo.framework}${projectInfo.fromManifest ? '' : chalk.dim(' (detected from dependencies)')}`);
     logger.keyValue('Source', projectInfo.srcPath);
     logger.blank();
 
@@ -93,9 +99,12 @@ export async function addCommand(itemType?: string, itemName?: string, options:
 
     const files = await generateFiles(projectInfo, type, name, props, withTest);
 
+    // The project's Prettier config wins, then the style the package was generated with
+    const formatting = await resolveFormatting(projectPath, (await readManifest(projectPath))?.config.formatting);
+
     for (const file of files) {
         await fs.ensureDir(path.dirname(file.path));
-        await fs.writeFile(file.path, file.content);
+        await fs.writeFile(file.path, await formatContent(file.content, file.path, formatting));
         console.log(`  ${chalk.green('✔')} ${path.relative(projectPath, file.path)}`);
     }
 
@@ -107,12 +116,13 @@ export async function addCommand(itemType?: string, itemName?: string, options:
     console.log(chalk.bold('Next steps:'));
     console.log(`  • Import from "${getImportPath(projectInfo, type, name)}"`);
     if (withTest) {
-        console.log(`  • Run tests: ${chalk.cyan('npm test')}`);
+        console.log(`  • Run tests: ${chalk.cyan(getRunCommand(projectInfo.packageManager, 'test'))}`);
     }
 }
 
 /**
  * Detect project framework and configuration
+ * Uses the generation manifest when present, otherwise guesses from dependencies
  */
 async function detectProject(projectPath: string): Promise<ProjectInfo | null> {
     const packageJsonPath = path.join(projectPath, 'package.json');
@@ -120,6 +130,19 @@ async function detectProject(projectPath: string): Promise<ProjectInfo | null> {
         return null;
     }
 
+    const manifest = await readManifest(projectPath);
+    if (manifest) {
+        const srcPath = getSourceDir(manifest);
+        return {
+            framework: manifest.generator.framework,
+            srcPath,
+            hasTests: await hasTestFiles(path.join(projectPath, srcPath)),
+            usesTypescript: true,
+            packageManager: manifest.config.packageManager,
+            fromManifest: true,
+        };
+    }
+
     const packageJson = await fs.readJson(packageJsonPath);
     const deps = { ...packageJson.dependencies, ...packageJson.devDependencies, ...packageJson.peerDependencies };
 
@@ -142,8 +165,7 @@ async function detectProject(projectPath: string): Promise<ProjectInfo | null> {
     }
 
     // Check for tests
-    const hasTests = await fs.pathExists(path.join(projectPath, srcPath)) &&
-        (await fs.readdir(path.join(projectPath, srcPath))).some((f: string) => f.includes('.test.') || f.includes('.spec.'));
+    const hasTests = await hasTestFiles(path.join(projectPath, srcPath));
 
     // Check for TypeScript
     const usesTypescript = await fs.pathExists(path.join(projectPath, 'tsconfig.json'));
@@ -153,9 +175,19 @@ async function detectProject(projectPath: string): Promise<ProjectInfo | null> {
         srcPath,
         hasTests,
         usesTypescript,
+        packageManager: 'npm',
+        fromManifest: false,
     };
 }
 
+/**
+ * Check whether a source directory contains test files
+ */
+async function hasTestFiles(srcDir: string): Promise<boolean> {
+    return await fs.pathExists(srcDir) &&
+        (await fs.readdir(srcDir)).some((f: string) => f.includes('.test.') || f.includes('.spec.'));
+}
+
 /**
  * Get type choices based on framework
  */
@@ -8,6 +8,7 @@ import { validatePackage } from '../core/validator.js';
 import { logger } from '../core/logger.js';
 import { calculateQualityScore } from '../core/quality/index.js';
 import { analyzeBundleSize, formatBytes } from '../core/analyzer/index.js';
+import { readManifest, getModifiedFiles } from '../core/manifest.js';
 import type { CheckCategory, ValidationSeverity } from '../types/index.js';
 
 /**
@@ -28,6 +29,13 @@ export async function checkCommand(packagePath?: string, options: CheckOptions =
 
     logger.header('Package Validation');
     logger.keyValue('Path', targetPath);
+
+    const manifest = await readManifest(targetPath);
+    if (manifest) {
+        const modified = await getModifiedFiles(targetPath, manifest);
+        logger.keyValue('Generated by', `${manifest.generator.id}@${manifest.generator.version} (scaffold-kit ${manifest.cliVersion})`);
+        logger.keyValue('Modified', `${modified.length} of ${Object.keys(manifest.files).length} generated files`);
+    }
     logger.blank();
 
     // If score flag is set, show quality score
@@ -229,6 +237,7 @@ function getCategoryDisplayName(category: CheckCategory): string {
         framework: 'Framework Compatibility',
         tarball: 'Tarball Inspection',
         buildOutput: 'Build Output',
+        bin: 'Bin Executables',
         deprecated: 'Deprecated Patterns',
     };
 
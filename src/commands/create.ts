@@ -1,13 +1,16 @@
 /**
  * Create Command
  * Interactive wizard for creating new packages
+ * Every wizard answer can also be supplied by flag or answers file for scripted runs
  */
 import path from 'path';
+import fs from 'fs-extra';
 import chalk from 'chalk';
 import {
     input,
     select,
     confirm,
+    checkbox,
 } from '@inquirer/prompts';
 import validateNpmPackageName from 'validate-npm-package-name';
 import type {
@@ -17,40 +20,181 @@ import type {
     BuildSystem,
     RuntimeTarget,
     ModuleFormat,
+    StylingStrategy,
+    Generator,
     GeneratorConfig,
+    CustomTemplate,
+    ValidationIssue,
+    WizardAnswers,
+    RenderedFile,
+    WorkspaceConfig,
+    WorkspacePackageSpec,
 } from '../types/index.js';
 import { registry } from '../core/registry.js';
+import { SUBPATH_EXPORT_PATTERN } from '../core/constants.js';
 import { generatePackage } from '../core/generator.js';
+import type { GenerateOptions } from '../core/generator.js';
+import { runPostGenerateActions, getNextSteps } from '../core/post-generate.js';
+import { loadCustomTemplate } from '../core/custom-template.js';
+import { resolveFormatting } from '../core/formatting.js';
+import { loadScaffoldConfig } from '../core/config.js';
+import {
+    findWorkspaceRoot,
+    generateWorkspace,
+    getWorkspaceMembership,
+    getWorkspacePlacement,
+    parseWorkspacePackageSpec,
+    registerWorkspacePackage,
+    resolveWorkspacePackages,
+    WORKSPACE_PACKAGES_DIR,
+} from '../core/workspace.js';
 import { logger } from '../core/logger.js';
+import {
+    printFileTree,
+    printFileContents,
+    printDiff,
+    printPatch,
+    createFilePatch,
+} from '../core/preview.js';
+import {
+    validateAnswers,
+    loadAnswersFile,
+    saveAnswersFile,
+    applyAnswerDefaults,
+    getMissingAnswers,
+} from '../core/answers.js';
+import {
+    getPreset,
+    getPresetChoices,
+    getPresetAnswers,
+    getPresetGeneratorConfig,
+    loadCustomPresets,
+} from '../presets/index.js';
+import type { PresetName } from '../presets/index.js';
 
 /**
- * Wizard prompts for package creation
+ * Create command options
  */
-interface WizardAnswers {
-    name: string;
-    description: string;
-    framework: Framework;
-    packageType: PackageType;
-    packageManager: PackageManager;
-    buildSystem: BuildSystem;
-    runtimeTarget: RuntimeTarget;
-    moduleFormat: ModuleFormat;
-    license: string;
-    author: string;
+export interface CreateOptions {
+    framework?: string;
+    /** Generator id, to pick one of several generators for a framework */
+    generator?: string;
+    /** Custom template directory or git URL */
+    template?: string;
+    type?: string;
+    build?: string;
+    format?: string;
+    target?: string;
+    pm?: string;
+    license?: string;
+    description?: string;
+    author?: string;
     repository?: string;
-    includeExample: boolean;
+    example?: boolean;
+    /** Subpath exports besides "." */
+    exports?: string[];
+    styling?: string;
+    preset?: string;
+    /** Accept defaults for every answer not otherwise provided */
+    yes?: boolean;
+    /** Path to a JSON answers file */
+    answers?: string;
+    /** Path to write the collected answers to */
+    saveAnswers?: string;
+    /** Render into memory and preview instead of writing */
+    dryRun?: boolean;
+    /** With dryRun, print the full contents of every file */
+    showContents?: boolean;
+    /** With dryRun, print a unified diff against this directory */
+    diff?: string;
+    /** Overwrite files in a non-empty output directory without asking */
+    force?: boolean;
+    /** Initialize a git repository with an initial commit */
+    git?: boolean;
+    /** Install dependencies after generating */
+    install?: boolean;
+    /** Set up husky git hooks after installing */
+    husky?: boolean;
+    /** Add a .prettierrc and .editorconfig matching the formatting */
+    formatConfig?: boolean;
+    /**
+     * Create a monorepo workspace instead of a single package
+     * false creates a standalone package even inside an existing workspace
+     */
+    workspace?: boolean;
+    /** With workspace, the packages to generate: <name>:<framework>[:<dependency>+...] */
+    packages?: string[];
 }
 
+/**
+ * Options that only apply to a single package
+ */
+const SINGLE_PACKAGE_OPTIONS: Array<{ option: keyof CreateOptions; flag: string }> = [
+    { option: 'framework', flag: '--framework' },
+    { option: 'generator', flag: '--generator' },
+    { option: 'template', flag: '--template' },
+    { option: 'type', flag: '--type' },
+    { option: 'preset', flag: '--preset' },
+];
+
 /**
  * Run the create command
  */
-export async function createCommand(name?: string): Promise<void> {
+export async function createCommand(name?: string, options: CreateOptions = {}): Promise<void> {
+    if (options.workspace) {
+        return createWorkspace(name, options);
+    }
+
+    if (options.packages && options.packages.length > 0) {
+        logger.error('--package only applies with --workspace');
+        process.exit(1);
+    }
+
     logger.header('Create New Package');
     logger.blank();
 
     try {
-        // Gather all wizard answers
-        const answers = await runWizard(name);
+        // Register custom presets from config files and preset packages
+        // Invalid presets are skipped, so problems never stop the wizard
+        logger.issues(await loadCustomPresets());
+
+        // Answers from the answers file, overridden by explicit flags
+        let provided = await collectProvidedAnswers(name, options);
+
+        // Inside an existing workspace the package joins it, with the workspace's package manager
+        const workspace = options.workspace === false ? undefined : await findWorkspaceRoot(process.cwd());
+        if (workspace) {
+            logger.info(`Adding the package to the workspace at ${workspace.root} ${chalk.dim('(--no-workspace for a standalone package)')}`);
+            provided.packageManager ??= workspace.packageManager;
+        }
+
+        // A custom template replaces the generator's files and may fix the framework
+        const template = provided.template ? await loadTemplate(provided.template, provided) : undefined;
+
+        provided = withPresetAnswers(provided);
+
+        if (options.yes) {
+            provided = applyAnswerDefaults(provided);
+        }
+
+        const interactive = isInteractive();
+        const missing = getMissingAnswers(provided);
+
+        if (missing.length > 0 && !interactive) {
+            logger.error('Missing required answers (no TTY available to prompt for them):');
+            logger.list(missing.map((m) => `${m.field} ${chalk.dim(`(${m.flag})`)}`));
+            process.exit(1);
+        }
+
+        // Prompt only for the answers that are still missing
+        const answers = await runWizard(provided);
+
+        if (options.saveAnswers) {
+            await saveAnswersFile(options.saveAnswers, answers);
+            logger.info(`Saved answers to ${options.saveAnswers}`);
+        }
+
+        const placement = workspace && getWorkspacePlacement(workspace, answers.name, process.cwd());
 
         // Build configuration
         const config: GeneratorConfig = {
@@ -65,23 +209,49 @@ export async function createCommand(name?: string): Promise<void> {
             author: answers.author,
             repository: answers.repository,
             includeExample: answers.includeExample,
-            outDir: path.resolve(process.cwd(), getPackageDir(answers.name)),
+            subpathExports: answers.subpathExports,
+            styling: answers.styling,
+            outDir: workspace && placement
+                ? path.join(workspace.root, placement.dir)
+                : path.resolve(process.cwd(), getPackageDir(answers.name)),
         };
 
+        // A workspace package extends the root's configs and leaves repository-wide files to the root
+        if (workspace && placement) {
+            config.workspace = await getWorkspaceMembership(workspace, placement.dir);
+        }
+
+        // Apply preset extras (CI, git hooks, additional deps, scripts and files)
+        const preset = answers.preset ? getPreset(answers.preset) : undefined;
+        if (preset) {
+            Object.assign(config, getPresetGeneratorConfig(preset));
+        }
+
+        // Format like the surrounding project, recording the style so updates keep it
+        config.formatting = await resolveFormatting(config.outDir);
+        config.includeFormattingConfig = options.formatConfig
+            ?? (await loadScaffoldConfig(config.outDir)).config.includeFormattingConfig;
+
         // Confirm before generating
         logger.blank();
         logger.box('Package Configuration', [
             `Name: ${config.name}`,
             `Framework: ${answers.framework}`,
+            `Generator: ${answers.generator}`,
+            ...(template ? [`Template: ${template.descriptor.name} (${template.source})`] : []),
+            `Preset: ${answers.preset || 'none'}`,
             `Type: ${config.packageType}`,
             `Build: ${config.buildSystem}`,
             `Target: ${config.runtimeTarget}`,
             `Format: ${config.moduleFormat}`,
+            ...(config.subpathExports ? [`Exports: ., ${config.subpathExports.join(', ')}`] : []),
+            ...(config.styling ? [`Styling: ${config.styling}`] : []),
             `License: ${config.license}`,
+            ...(workspace ? [`Workspace: ${workspace.root}`] : []),
             `Output: ${config.outDir}`,
         ]);
 
-        const shouldProceed = await confirm({
+        const shouldProceed = options.yes || options.dryRun || !interactive || await confirm({
             message: 'Generate package with these settings?',
             default: true,
         });
@@ -91,16 +261,46 @@ export async function createCommand(name?: string): Promise<void> {
             return;
         }
 
+        // Decide what to do with an existing, non-empty output directory
+        let existing: GenerateOptions['existing'];
+        if (!options.dryRun && await isNonEmptyDir(config.outDir)) {
+            const action = await resolveExistingDirAction(config.outDir, options, interactive);
+            if (action === 'abort') {
+                logger.info('Package creation cancelled');
+                return;
+            }
+            existing = action;
+        }
+
         logger.blank();
 
         // Generate the package
-        const result = await generatePackage(answers.framework, config);
+        const result = await generatePackage(answers.framework, config, {
+            dryRun: options.dryRun,
+            existing,
+            generatorId: answers.generator,
+            template,
+        });
 
         if (!result.success) {
             logger.error(`Generation failed: ${result.error}`);
             process.exit(1);
         }
 
+        if (options.dryRun) {
+            await showDryRun(result.rendered || [], config.outDir, options);
+            return;
+        }
+
+        // Register the package in the workspace root
+        if (workspace && placement) {
+            const changed = await registerWorkspacePackage(workspace, placement, config.formatting);
+            changed.forEach((file) => logger.info(`Added ${placement.dir} to ${file}`));
+            if (!config.workspace?.referenced) {
+                logger.warn(`Couldn't parse the workspace tsconfig.json; add { "path": "./${placement.dir}" } to its "references"`);
+            }
+        }
+
         // Display success message
         logger.blank();
         logger.success(`Package ${chalk.bold(config.name)} created successfully!`);
@@ -113,6 +313,16 @@ export async function createCommand(name?: string): Promise<void> {
             logger.blank();
         }
 
+        // Display existing files that were kept over a differing generated version
+        if (result.conflicts && result.conflicts.length > 0) {
+            logger.warn(`Kept ${result.conflicts.length} existing files that differ from the generated version:`);
+            logger.blank();
+            for (const conflict of result.conflicts) {
+                printPatch(createFilePatch(conflict.path, conflict.existing, conflict.generated, conflict.encoding));
+            }
+            logger.blank();
+        }
+
         // Display generated files
         logger.info(`Generated ${result.files.length} files:`);
         result.files.slice(0, 10).forEach((f) => logger.file(f));
@@ -121,10 +331,17 @@ export async function createCommand(name?: string): Promise<void> {
         }
         logger.blank();
 
+        // Run post-generation actions, from the root for a workspace package
+        const outcomes = await runPostGenerateActions(workspace ? { ...config, outDir: workspace.root, includeHusky: false } : config, {
+            initGit: answers.initGit,
+            installDependencies: answers.installDependencies,
+            setupHusky: answers.setupHusky,
+        });
+
         // Display next steps
         logger.header('Next Steps');
         logger.blank();
-        result.nextSteps.forEach((step, i) => {
+        getNextSteps(config, outcomes).forEach((step) => {
             logger.command(step);
         });
         logger.blank();
@@ -138,17 +355,442 @@ export async function createCommand(name?: string): Promise<void> {
     }
 }
 
+/**
+ * Create a monorepo workspace: the root, then each package under packages/
+ */
+async function createWorkspace(name: string | undefined, options: CreateOptions): Promise<void> {
+    logger.header('Create New Workspace');
+    logger.blank();
+
+    try {
+        const unsupported = SINGLE_PACKAGE_OPTIONS.filter(({ option }) => options[option] !== undefined);
+        if (unsupported.length > 0) {
+            logger.error(`${unsupported.map((u) => u.flag).join(', ')} can't be used with --workspace`);
+            logger.info(`Choose each package's framework with ${chalk.cyan('--package <name>:<framework>')}`);
+            process.exit(1);
+        }
+
+        const provided = await collectProvidedAnswers(name, options);
+        const interactive = isInteractive();
+        const prompting = interactive && !options.yes;
+
+        const ask = async <T>(value: T | undefined, fallback: T, flag: string, prompt: () => Promise<T>): Promise<T> => {
+            if (value !== undefined) return value;
+            if (options.yes) return fallback;
+            if (!interactive) {
+                logger.error(`Missing ${flag} (no TTY available to prompt for it)`);
+                process.exit(1);
+            }
+            return prompt();
+        };
+
+        const workspaceName = provided.name ?? (prompting ? await input({
+            message: 'Workspace name:',
+            validate: (value) => validateNpmPackageName(value).validForNewPackages || 'Invalid package name',
+        }) : undefined);
+
+        if (!workspaceName) {
+            logger.error('Missing the workspace name ([name] argument)');
+            process.exit(1);
+        }
+
+        const description = await ask(provided.description, `The ${workspaceName} workspace`, '--description', () => input({
+            message: 'Description:',
+            default: `The ${workspaceName} workspace`,
+        }));
+        const packageManager = await ask<PackageManager>(provided.packageManager, 'npm', '--pm', () => select<PackageManager>({
+            message: 'Package manager:',
+            choices: [
+                { value: 'npm', name: 'npm' },
+                { value: 'pnpm', name: 'pnpm', description: 'Fast, disk-efficient' },
+                { value: 'yarn', name: 'yarn', description: 'Yarn 2 or later' },
+                { value: 'bun', name: 'bun', description: 'Ultra-fast JavaScript runtime' },
+            ],
+            default: 'pnpm',
+        }));
+        const license = await ask(provided.license, 'MIT', '--license', () => input({ message: 'License:', default: 'MIT' }));
+        const author = await ask(provided.author, process.env.npm_config_init_author_name || '', '--author', () => input({
+            message: 'Author:',
+            default: process.env.npm_config_init_author_name || '',
+        }));
+
+        // Packages from --package, or asked for one at a time
+        let specs: WorkspacePackageSpec[] = (options.packages || []).map(parseWorkspacePackageSpec);
+        if (specs.length === 0) {
+            if (!prompting) {
+                logger.error(`Add at least one package with ${chalk.cyan('--package <name>:<framework>')}`);
+                process.exit(1);
+            }
+            specs = await promptWorkspacePackages();
+        }
+
+        const outDir = path.resolve(process.cwd(), getPackageDir(workspaceName));
+        const workspace: Omit<WorkspaceConfig, 'packages'> = {
+            name: workspaceName,
+            description,
+            packageManager,
+            license,
+            author,
+            repository: provided.repository,
+            outDir,
+            formatting: await resolveFormatting(outDir),
+            includeFormattingConfig: options.formatConfig ?? (await loadScaffoldConfig(outDir)).config.includeFormattingConfig,
+        };
+
+        let config: WorkspaceConfig;
+        try {
+            config = {
+                ...workspace,
+                packages: resolveWorkspacePackages(workspace, specs, {
+                    buildSystem: provided.buildSystem,
+                    moduleFormat: provided.moduleFormat,
+                    runtimeTarget: provided.runtimeTarget,
+                    includeExample: provided.includeExample,
+                }),
+            };
+        } catch (error) {
+            logger.error(error instanceof Error ? error.message : String(error));
+            process.exit(1);
+        }
+
+        logger.blank();
+        logger.box('Workspace Configuration', [
+            `Name: ${config.name}`,
+            `Package manager: ${config.packageManager}`,
+            `License: ${config.license}`,
+            `Output: ${config.outDir}`,
+            'Packages:',
+            ...config.packages.map((p) => {
+                const dependencies = Object.keys(p.config.workspace?.dependencies || {});
+                return `  ${p.dir}: ${p.config.name} (${p.generatorId}, ${p.config.buildSystem})`
+                    + (dependencies.length > 0 ? ` → ${dependencies.join(', ')}` : '');
+            }),
+        ]);
+
+        const shouldProceed = options.yes || options.dryRun || !interactive || await confirm({
+            message: 'Generate workspace with these settings?',
+            default: true,
+        });
+
+        if (!shouldProceed) {
+            logger.info('Workspace creation cancelled');
+            return;
+        }
+
+        let existing: GenerateOptions['existing'];
+        if (!options.dryRun && await isNonEmptyDir(config.outDir)) {
+            const action = await resolveExistingDirAction(config.outDir, options, interactive);
+            if (action === 'abort') {
+                logger.info('Workspace creation cancelled');
+                return;
+            }
+            existing = action;
+        }
+
+        logger.blank();
+        const result = await generateWorkspace(config, { dryRun: options.dryRun, existing });
+
+        if (!result.success) {
+            logger.error(`Generation failed: ${result.error}`);
+            process.exit(1);
+        }
+
+        if (options.dryRun) {
+            await showDryRun(result.rendered || [], config.outDir, options);
+            return;
+        }
+
+        logger.blank();
+        logger.success(`Workspace ${chalk.bold(config.name)} created with ${config.packages.length} packages!`);
+        logger.blank();
+
+        if (result.warnings.length > 0) {
+            logger.warn('Warnings:');
+            result.warnings.forEach((w) => logger.list([w]));
+            logger.blank();
+        }
+
+        if (result.conflicts && result.conflicts.length > 0) {
+            logger.warn(`Kept ${result.conflicts.length} existing files that differ from the generated version:`);
+            logger.blank();
+            for (const conflict of result.conflicts) {
+                printPatch(createFilePatch(conflict.path, conflict.existing, conflict.generated, conflict.encoding));
+            }
+            logger.blank();
+        }
+
+        logger.info(`Generated ${result.files.length} files`);
+        logger.blank();
+
+        const outcomes = await runPostGenerateActions(config, {
+            initGit: provided.initGit ?? (prompting ? await confirm({
+                message: 'Initialize a git repository with an initial commit?',
+                default: true,
+            }) : false),
+            installDependencies: provided.installDependencies ?? (prompting ? await confirm({
+                message: `Install dependencies with ${packageManager}?`,
+                default: true,
+            }) : false),
+        });
+
+        logger.header('Next Steps');
+        logger.blank();
+        getNextSteps(config, outcomes).forEach((step) => {
+            logger.command(step);
+        });
+        logger.blank();
+
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('User force closed')) {
+            logger.info('Operation cancelled');
+            return;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Ask for workspace packages one at a time
+ */
+async function promptWorkspacePackages(): Promise<WorkspacePackageSpec[]> {
+    const specs: WorkspacePackageSpec[] = [];
+    const frameworks = registry.getSupportedFrameworks();
+
+    do {
+        const name = await input({
+            message: `Package name (generated into ${WORKSPACE_PACKAGES_DIR}/<name>):`,
+            validate: (value) => {
+                if (!validateNpmPackageName(value).validForNewPackages) return 'Invalid package name';
+                if (specs.some((s) => s.name === value)) return `${value} is already in the workspace`;
+                return true;
+            },
+        });
+
+        const framework = await select<Framework>({
+            message: 'Framework:',
+            choices: frameworks.map((f) => ({ value: f, name: registry.getPrimary(f)?.meta.name ?? f })),
+        });
+
+        const dependsOn = specs.length > 0 ? await checkbox({
+            message: 'Depends on:',
+            choices: specs.map((s) => ({ value: s.name, name: s.name })),
+        }) : [];
+
+        specs.push({ name, framework, dependsOn });
+    } while (await confirm({ message: 'Add another package?', default: specs.length < 2 }));
+
+    return specs;
+}
+
+/**
+ * Collect answers supplied without prompting, from the answers file and flags
+ * Exits with a list of problems if any supplied value is invalid
+ */
+async function collectProvidedAnswers(name: string | undefined, options: CreateOptions): Promise<Partial<WizardAnswers>> {
+    const issues: ValidationIssue[] = [];
+    let fileAnswers: Partial<WizardAnswers> = {};
+
+    if (options.answers) {
+        const loaded = await loadAnswersFile(options.answers);
+        fileAnswers = loaded.answers;
+        issues.push(...loaded.issues);
+    }
+
+    const flagAnswers = validateAnswers({
+        name,
+        description: options.description,
+        framework: options.framework,
+        generator: options.generator,
+        template: options.template,
+        packageType: options.type,
+        packageManager: options.pm,
+        buildSystem: options.build,
+        runtimeTarget: options.target,
+        moduleFormat: options.format,
+        license: options.license,
+        author: options.author,
+        repository: options.repository,
+        includeExample: options.example,
+        subpathExports: options.exports,
+        styling: options.styling,
+        preset: options.preset,
+        initGit: options.git,
+        installDependencies: options.install,
+        setupHusky: options.husky,
+    }, 'command line');
+    issues.push(...flagAnswers.issues);
+
+    for (const issue of issues.filter((i) => i.severity === 'warning')) {
+        logger.warn(`${issue.file}: ${issue.message}`);
+    }
+
+    const errors = issues.filter((i) => i.severity === 'error');
+    if (errors.length > 0) {
+        logger.error('Invalid answers:');
+        logger.list(errors.map((e) => `${e.file}: ${e.message}${e.suggestion ? chalk.dim(` (${e.suggestion})`) : ''}`));
+        process.exit(1);
+    }
+
+    return { ...fileAnswers, ...flagAnswers.answers };
+}
+
+/**
+ * Load the custom template given by --template or the answers file
+ * Its descriptor's framework becomes the framework answer; exits if the template is unusable
+ */
+async function loadTemplate(source: string, provided: Partial<WizardAnswers>): Promise<CustomTemplate> {
+    const { template, issues } = await loadCustomTemplate(source);
+    logger.issues(issues);
+
+    if (!template) {
+        process.exit(1);
+    }
+
+    const { framework } = template.descriptor;
+    if (framework) {
+        if (!registry.hasFramework(framework)) {
+            logger.error(`Template "${template.descriptor.name}" is for framework "${framework}", which no generator supports`);
+            process.exit(1);
+        }
+        if (provided.framework && provided.framework !== framework) {
+            logger.error(`Template "${template.descriptor.name}" is for framework "${framework}", not "${provided.framework}"`);
+            process.exit(1);
+        }
+        provided.framework = framework;
+    }
+
+    logger.info(`Using template ${template.descriptor.name} (${template.descriptor.files?.length ?? 0} files)`);
+    return template;
+}
+
+/**
+ * Check whether a directory exists and has content
+ * A lone .git directory (a freshly cloned empty repository) doesn't count
+ */
+async function isNonEmptyDir(dir: string): Promise<boolean> {
+    if (!await fs.pathExists(dir)) {
+        return false;
+    }
+    const entries = await fs.readdir(dir);
+    return entries.some((entry) => entry !== '.git');
+}
+
+/**
+ * Decide how to treat an existing, non-empty output directory
+ */
+async function resolveExistingDirAction(
+    outDir: string,
+    options: CreateOptions,
+    interactive: boolean
+): Promise<'abort' | 'overwrite' | 'merge'> {
+    if (options.force) {
+        return 'overwrite';
+    }
+
+    // Merge never replaces an existing file, so it's the safe default
+    if (options.yes) {
+        return 'merge';
+    }
+
+    if (!interactive) {
+        logger.error(`Output directory ${outDir} is not empty.`);
+        logger.list([
+            `Use ${chalk.cyan('--force')} to overwrite existing files`,
+            `Use ${chalk.cyan('--yes')} to keep existing files and only add new ones`,
+        ]);
+        process.exit(1);
+    }
+
+    return select<'abort' | 'overwrite' | 'merge'>({
+        message: `${path.basename(outDir)} already exists and is not empty:`,
+        choices: [
+            { value: 'merge', name: 'Merge', description: 'Keep existing files, add new ones and show what differs' },
+            { value: 'overwrite', name: 'Overwrite', description: 'Replace existing files with the generated ones' },
+            { value: 'abort', name: 'Abort', description: 'Leave the directory untouched' },
+        ],
+        default: 'merge',
+    });
+}
+
+/**
+ * Preview a dry run: file tree, and optionally full contents or a diff
+ */
+async function showDryRun(rendered: RenderedFile[], outDir: string, options: CreateOptions): Promise<void> {
+    logger.blank();
+    logger.header('Dry Run');
+    logger.blank();
+
+    printFileTree(rendered, path.basename(outDir));
+    logger.blank();
+
+    if (options.showContents) {
+        printFileContents(rendered);
+    }
+
+    if (options.diff) {
+        const targetDir = path.resolve(process.cwd(), options.diff);
+        const changed = await printDiff(rendered, targetDir);
+        logger.blank();
+        logger.info(`${changed} of ${rendered.length} files differ from ${targetDir}`);
+    }
+
+    logger.info('Dry run complete - no files were written');
+}
+
+/**
+ * Pre-fill answers from the selected preset
+ * Explicitly provided answers always win over preset values
+ */
+function withPresetAnswers(answers: Partial<WizardAnswers>): Partial<WizardAnswers> {
+    const preset = answers.preset ? getPreset(answers.preset) : undefined;
+    if (!preset) {
+        return answers;
+    }
+
+    const presetAnswers = getPresetAnswers(preset);
+
+    // Only keep the preset's runtime target once we know a generator that could be used supports it
+    const candidates = answers.generator
+        ? [registry.get(answers.generator)!]
+        : answers.framework ? registry.findCompatible(answers.framework, { packageType: answers.packageType }) : [];
+    const runtimeTarget = presetAnswers.runtimeTarget;
+    if (runtimeTarget && !candidates.some((g) => g.meta.supportedRuntimeTargets.includes(runtimeTarget))) {
+        delete presetAnswers.runtimeTarget;
+    }
+
+    return { ...presetAnswers, ...answers };
+}
+
+/**
+ * Split a comma-separated list of subpath exports
+ */
+function splitSubpathExports(value: string): string[] {
+    return value.split(',').map((subpath) => subpath.trim()).filter(Boolean);
+}
+
+/**
+ * Whether prompts can be shown
+ */
+function isInteractive(): boolean {
+    return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
 /**
  * Run the interactive wizard
+ * Questions whose answers were already provided are skipped
  */
-async function runWizard(initialName?: string): Promise<WizardAnswers> {
+async function runWizard(initial: Partial<WizardAnswers> = {}): Promise<WizardAnswers> {
+    let provided = initial;
+
+    // Optional questions are only asked when the user is answering interactively anyway
+    const prompting = getMissingAnswers(initial).length > 0;
+
     // Get supported frameworks from registry
     const supportedFrameworks = registry.getSupportedFrameworks();
 
     // Package name
-    const name = await input({
+    const name = provided.name ?? await input({
         message: 'Package name:',
-        default: initialName,
         validate: (value) => {
             const result = validateNpmPackageName(value);
             if (!result.validForNewPackages) {
@@ -160,7 +802,7 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
     });
 
     // Description
-    const description = await input({
+    const description = provided.description ?? await input({
         message: 'Description:',
         default: `A ${name} package`,
     });
@@ -174,13 +816,23 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
         { value: 'node', name: 'Node.js', description: 'Node.js package or CLI' },
     ];
 
-    const framework = await select<Framework>({
+    // Frameworks added by generator plugins are described by their generator
+    for (const pluginFramework of supportedFrameworks) {
+        const primary = registry.getPrimary(pluginFramework);
+        if (primary && !frameworkChoices.some((c) => c.value === pluginFramework)) {
+            frameworkChoices.push({ value: pluginFramework, name: primary.meta.name, description: primary.meta.description });
+        }
+    }
+
+    const framework = provided.framework ?? await select<Framework>({
         message: 'Framework:',
         choices: frameworkChoices.filter((c) => supportedFrameworks.includes(c.value)),
     });
 
+    // Generator, when the framework has several
+    const generator = await selectGenerator(framework, provided, prompting);
+
     // Package type
-    const generator = registry.getPrimary(framework);
     const supportedTypes = generator?.meta.supportedPackageTypes || ['library' as PackageType];
 
     const packageTypeChoices: Array<{ value: PackageType; name: string; description: string }> = [
@@ -191,13 +843,21 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
         { value: 'sdk', name: 'SDK', description: 'SDK for external service' },
     ];
 
-    const packageType = await select<PackageType>({
+    const packageType = provided.packageType ?? await select<PackageType>({
         message: 'Package type:',
         choices: packageTypeChoices.filter((c) => supportedTypes.includes(c.value)),
     });
 
+    // Preset (pre-fills and skips the questions it covers)
+    const preset = provided.preset ?? (prompting ? await select<PresetName>({
+        message: 'Preset:',
+        choices: getPresetChoices(),
+        default: 'standard',
+    }) : undefined);
+    provided = withPresetAnswers({ ...provided, framework, generator: generator.meta.id, preset });
+
     // Package manager
-    const packageManager = await select<PackageManager>({
+    const packageManager = provided.packageManager ?? await select<PackageManager>({
         message: 'Package manager:',
         choices: [
             { value: 'npm', name: 'npm' },
@@ -211,7 +871,7 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
     // Build system
     const recommendedBuild = generator?.meta.recommendedBuildSystem || 'tsup';
 
-    const buildSystem = await select<BuildSystem>({
+    const buildSystem = provided.buildSystem ?? await select<BuildSystem>({
         message: 'Build system:',
         choices: [
             { value: 'tsup', name: 'tsup', description: 'Zero-config bundler (recommended)' },
@@ -233,14 +893,14 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
         { value: 'edge', name: 'Edge', description: 'Edge runtime (Deno, Cloudflare Workers)' },
     ];
 
-    const runtimeTarget = await select<RuntimeTarget>({
+    const runtimeTarget = provided.runtimeTarget ?? await select<RuntimeTarget>({
         message: 'Runtime target:',
         choices: runtimeTargetChoices.filter((c) => supportedTargets.includes(c.value)),
         default: framework === 'node' ? 'node' : 'browser',
     });
 
     // Module format
-    const moduleFormat = await select<ModuleFormat>({
+    const moduleFormat = provided.moduleFormat ?? await select<ModuleFormat>({
         message: 'Module format:',
         choices: [
             { value: 'esm', name: 'ESM only', description: 'Modern ES modules (recommended)' },
@@ -250,8 +910,41 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
         default: 'esm',
     });
 
+    // Subpath exports (optional)
+    let subpathExports = provided.subpathExports;
+    if (subpathExports === undefined && prompting) {
+        const value = await input({
+            message: 'Subpath exports besides "." (comma-separated, e.g. ./components, ./icons/*), blank for none:',
+            default: '',
+            validate: (value) => {
+                const invalid = splitSubpathExports(value).find((subpath) => !SUBPATH_EXPORT_PATTERN.test(subpath));
+                return invalid ? `"${invalid}" is not a subpath like ./components or ./icons/*` : true;
+            },
+        });
+        subpathExports = splitSubpathExports(value);
+    }
+
+    // Styling (component libraries only; a preset's styling is ignored by other generators)
+    const supportedStyling = generator.meta.supportedStyling || [];
+    let styling = supportedStyling.length > 0 ? provided.styling : undefined;
+    if (styling === undefined && prompting && supportedStyling.length > 0) {
+        const stylingChoices: Array<{ value: StylingStrategy; name: string; description: string }> = [
+            { value: 'none', name: 'None', description: 'Component-scoped styles, no stylesheet' },
+            { value: 'css', name: 'CSS', description: 'Plain CSS, extracted into one stylesheet' },
+            { value: 'css-modules', name: 'CSS Modules', description: 'Locally scoped class names' },
+            { value: 'tailwind', name: 'Tailwind CSS', description: 'Utility classes, stylesheet built by the Tailwind CLI' },
+            { value: 'vanilla-extract', name: 'vanilla-extract', description: 'Type-safe styles written in TypeScript' },
+        ];
+
+        styling = await select<StylingStrategy>({
+            message: 'Styling:',
+            choices: stylingChoices.filter((c) => c.value === 'none' || supportedStyling.includes(c.value)),
+            default: 'none',
+        });
+    }
+
     // License
-    const license = await select({
+    const license = provided.license ?? await select({
         message: 'License:',
         choices: [
             { value: 'MIT', name: 'MIT' },
@@ -265,18 +958,18 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
     });
 
     // Author
-    const author = await input({
+    const author = provided.author ?? await input({
         message: 'Author:',
         default: process.env.npm_config_init_author_name || '',
     });
 
     // Repository (optional)
-    const addRepository = await confirm({
+    let repository = provided.repository;
+    const addRepository = repository === undefined && prompting && await confirm({
         message: 'Add repository URL?',
         default: false,
     });
 
-    let repository: string | undefined;
     if (addRepository) {
         repository = await input({
             message: 'Repository URL:',
@@ -290,15 +983,34 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
     }
 
     // Include example app
-    const includeExample = await confirm({
+    const includeExample = provided.includeExample ?? await confirm({
         message: 'Include example application?',
         default: true,
     });
 
+    // Post-generation actions; left off unless asked for when nothing else is prompted
+    const initGit = provided.initGit ?? (prompting ? await confirm({
+        message: 'Initialize a git repository with an initial commit?',
+        default: true,
+    }) : undefined);
+
+    const installDependencies = provided.installDependencies ?? (prompting ? await confirm({
+        message: `Install dependencies with ${packageManager}?`,
+        default: true,
+    }) : undefined);
+
+    const usesHusky = preset ? getPreset(preset)?.includeHusky : false;
+    const setupHusky = provided.setupHusky ?? (prompting && usesHusky && initGit && installDependencies ? await confirm({
+        message: 'Set up git hooks with husky?',
+        default: true,
+    }) : undefined);
+
     return {
         name,
         description,
         framework,
+        generator: generator.meta.id,
+        template: provided.template,
         packageType,
         packageManager,
         buildSystem,
@@ -308,9 +1020,60 @@ async function runWizard(initialName?: string): Promise<WizardAnswers> {
         author,
         repository,
         includeExample,
+        subpathExports: subpathExports?.length ? subpathExports : undefined,
+        styling: styling === 'none' ? undefined : styling,
+        preset,
+        initGit,
+        installDependencies,
+        setupHusky,
     };
 }
 
+/**
+ * Pick the generator for a framework
+ * Generators that don't support an already chosen package type or runtime target are ruled out;
+ * when several still fit, the user chooses (or the first registered is used without prompting)
+ */
+async function selectGenerator(
+    framework: Framework,
+    provided: Partial<WizardAnswers>,
+    prompting: boolean
+): Promise<Generator> {
+    if (provided.generator) {
+        return registry.get(provided.generator)!;
+    }
+
+    const candidates = registry.findCompatible(framework, provided);
+
+    if (candidates.length === 0) {
+        const requirements = [
+            provided.packageType && `package type "${provided.packageType}"`,
+            provided.runtimeTarget && `runtime target "${provided.runtimeTarget}"`,
+        ].filter(Boolean).join(' and ');
+        throw new Error(`No ${framework} generator supports ${requirements}`);
+    }
+
+    if (candidates.length === 1) {
+        return candidates[0];
+    }
+
+    if (!prompting) {
+        logger.info(`Using generator ${candidates[0].meta.id} (also available: ${candidates.slice(1).map((g) => g.meta.id).join(', ')}; choose with --generator)`);
+        return candidates[0];
+    }
+
+    const id = await select<string>({
+        message: 'Generator:',
+        choices: candidates.map((g) => ({
+            value: g.meta.id,
+            name: g.meta.name,
+            description: g.meta.description,
+        })),
+    });
+
+    return registry.get(id)!;
+}
+
 /**
  * Get directory name from package name
  */
@@ -7,6 +7,7 @@ import fs from 'fs-extra';
 import chalk from 'chalk';
 import { select } from '@inquirer/prompts';
 import { logger } from '../core/logger.js';
+import { readManifest, getSourceDir } from '../core/manifest.js';
 import { execSync } from 'child_process';
 
 /**
@@ -88,12 +89,14 @@ export async function docsCommand(subcommand?: string, options: DocsOptions = {}
  * Generate documentation
  */
 async function generateDocs(projectPath: string, options: DocsOptions): Promise<void> {
-    const srcPath = path.join(projectPath, 'src');
+    // Generated packages record where their library sources live
+    const manifest = await readManifest(projectPath);
+    const srcPath = path.join(projectPath, manifest ? getSourceDir(manifest) : 'src');
     const outputDir = options.output || path.join(projectPath, 'docs');
     const format = options.format || 'markdown';
 
     if (!await fs.pathExists(srcPath)) {
-        logger.error('No src directory found.');
+        logger.error(`No ${path.relative(projectPath, srcPath)} directory found.`);
         process.exit(1);
     }
 
@@ -7,6 +7,12 @@ import fs from 'fs-extra';
 import chalk from 'chalk';
 import { select, confirm } from '@inquirer/prompts';
 import { logger } from '../core/logger.js';
+import { readManifest, writeManifest } from '../core/manifest.js';
+import { getInstallCommand, getRunCommand } from '../core/post-generate.js';
+import { resolveFormatting, formatContent } from '../core/formatting.js';
+import { versionCatalog } from '../core/versions.js';
+import { BUILD_SYSTEMS, MODULE_FORMATS } from '../core/constants.js';
+import type { BuildSystem, FormattingOptions, GenerationManifest, ModuleFormat } from '../types/index.js';
 
 /**
  * Migrate command options
@@ -89,6 +95,8 @@ export async function migrateCommand(options: MigrateOptions = {}): Promise<void
         process.exit(1);
     }
 
+    const manifest = await readManifest(projectPath);
+
     // Select migration strategy
     let strategy: MigrationStrategy | undefined;
 
@@ -104,9 +112,18 @@ export async function migrateCommand(options: MigrateOptions = {}): Promise<void
             process.exit(1);
         }
     } else {
+        // With a manifest, only offer migrations away from what the package was generated with
+        const available = manifest ? strategies.filter(s => isApplicable(s, manifest)) : strategies;
+
+        if (available.length === 0) {
+            logger.success(`No migrations apply (generated with ${manifest!.config.buildSystem}, ${manifest!.config.moduleFormat}).`);
+            logger.info('Use --from and --to to run a migration anyway.');
+            return;
+        }
+
         strategy = await select({
             message: 'Select migration:',
-            choices: strategies.map(s => ({
+            choices: available.map(s => ({
                 value: s,
                 name: `${s.from} → ${s.to}`,
                 description: s.description,
@@ -167,31 +184,52 @@ export async function migrateCommand(options: MigrateOptions = {}): Promise<void
     console.log(chalk.bold('🔄 Applying changes...'));
     console.log();
 
+    const formatting = await resolveFormatting(projectPath, manifest?.config.formatting);
+
     for (const step of steps) {
-        await executeStep(projectPath, step);
+        await executeStep(projectPath, step, formatting);
         console.log(`  ${chalk.green('✔')} ${step.description}`);
     }
 
+    // Keep the manifest in step with the migrated build system or module format
+    if (manifest) {
+        if ((BUILD_SYSTEMS as string[]).includes(strategy.to)) {
+            manifest.config.buildSystem = strategy.to as BuildSystem;
+        } else if ((MODULE_FORMATS as string[]).includes(strategy.to)) {
+            manifest.config.moduleFormat = strategy.to as ModuleFormat;
+        }
+        await writeManifest(projectPath, manifest);
+    }
+
     console.log();
     logger.success('Migration completed!');
 
     // Next steps
+    const pm = manifest?.config.packageManager || 'npm';
     console.log();
     console.log(chalk.bold('Next steps:'));
-    console.log(`  • Run: ${chalk.cyan('npm install')}`);
-    console.log(`  • Run: ${chalk.cyan('npm run build')}`);
+    console.log(`  • Run: ${chalk.cyan(getInstallCommand(pm))}`);
+    console.log(`  • Run: ${chalk.cyan(getRunCommand(pm, 'build'))}`);
     console.log(`  • Review changes and commit`);
 }
 
+/**
+ * Check whether a migration applies to a package, going by its manifest
+ */
+function isApplicable(strategy: MigrationStrategy, manifest: GenerationManifest): boolean {
+    const { buildSystem, moduleFormat } = manifest.config;
+    return strategy.from === buildSystem || strategy.from === moduleFormat;
+}
+
 /**
  * Execute a single migration step
  */
-async function executeStep(projectPath: string, step: MigrationStep): Promise<void> {
+async function executeStep(projectPath: string, step: MigrationStep, formatting: FormattingOptions): Promise<void> {
     switch (step.type) {
         case 'file_create':
             if (step.path && step.content) {
                 await fs.ensureDir(path.dirname(path.join(projectPath, step.path)));
-                await fs.writeFile(path.join(projectPath, step.path), step.content);
+                await fs.writeFile(path.join(projectPath, step.path), await formatContent(step.content, step.path, formatting));
             }
             break;
 
@@ -204,7 +242,7 @@ async function executeStep(projectPath: string, step: MigrationStep): Promise<vo
         case 'file_modify':
             // For simplicity, file_modify is handled by creating new content
             if (step.path && step.content) {
-                await fs.writeFile(path.join(projectPath, step.path), step.content);
+                await fs.writeFile(path.join(projectPath, step.path), await formatContent(step.content, step.path, formatting));
             }
             break;
 
@@ -291,7 +329,7 @@ export default defineConfig({
         changes: [
             { field: 'devDependencies.vite', from: deps.vite, to: null },
             { field: 'devDependencies.vite-plugin-dts', from: deps['vite-plugin-dts'], to: null },
-            { field: 'devDependencies.tsup', from: undefined, to: '^8.3.0' },
+            { field: 'devDependencies.tsup', from: undefined, to: versionCatalog.getVersion('tsup') },
             { field: 'scripts.build', from: packageJson.scripts?.build, to: 'tsup' },
             { field: 'scripts.dev', from: packageJson.scripts?.dev, to: 'tsup --watch' },
         ],
@@ -351,7 +389,7 @@ export default defineConfig({
     }));
 
     depChanges.push(
-        { field: 'devDependencies.tsup', from: undefined, to: '^8.3.0' },
+        { field: 'devDependencies.tsup', from: undefined, to: versionCatalog.getVersion('tsup') },
         { field: 'scripts.build', from: packageJson.scripts?.build, to: 'tsup' },
         { field: 'scripts.dev', from: packageJson.scripts?.dev, to: 'tsup --watch' },
     );
@@ -499,7 +537,7 @@ export default defineConfig({
     }));
 
     depChanges.push(
-        { field: 'devDependencies.vitest', from: undefined, to: '^2.1.0' },
+        { field: 'devDependencies.vitest', from: undefined, to: versionCatalog.getVersion('vitest') },
         { field: 'scripts.test', from: packageJson.scripts?.test, to: 'vitest' },
     );
 
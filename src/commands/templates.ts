@@ -0,0 +1,221 @@
+/**
+ * Templates Command
+ * Inspect the template search path, eject built-in templates into an override directory,
+ * and lint templates
+ */
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { select } from '@inquirer/prompts';
+import type { TemplateLayer } from '../types/index.js';
+import { logger } from '../core/logger.js';
+import {
+    getOverrideLayers,
+    getTemplateLayers,
+    resolveTemplateLayers,
+} from '../core/template-layers.js';
+import { lintTemplateLayers, lintGeneratorTemplates } from '../core/template-lint.js';
+
+/**
+ * Templates command options
+ */
+export interface TemplatesOptions {
+    /** list: show which layer each template is loaded from */
+    resolved?: boolean;
+    /** eject: directory to copy into, instead of the first configured override directory */
+    to?: string;
+    /** eject: replace a template already in the override directory */
+    force?: boolean;
+    /** lint: list the variables, helpers and partials each template references */
+    variables?: boolean;
+}
+
+/**
+ * Run the templates command
+ */
+export async function templatesCommand(
+    subcommand?: string,
+    templatePath?: string,
+    options: TemplatesOptions = {}
+): Promise<void> {
+    const command = subcommand || await select({
+        message: 'What would you like to do?',
+        choices: [
+            { value: 'list', name: 'List templates', description: 'Show every template and where it comes from' },
+            { value: 'eject', name: 'Eject a template', description: 'Copy a built-in template into an override directory' },
+            { value: 'lint', name: 'Lint templates', description: 'Check syntax, helpers and variables of every template' },
+        ],
+    });
+
+    switch (command) {
+        case 'list':
+            await listTemplates(options);
+            break;
+        case 'eject':
+            await ejectTemplate(templatePath, options);
+            break;
+        case 'lint':
+            await lintTemplates(templatePath, options);
+            break;
+        default:
+            logger.error(`Unknown subcommand: ${command}`);
+            process.exit(1);
+    }
+}
+
+/**
+ * List every template on the search path
+ */
+async function listTemplates(options: TemplatesOptions): Promise<void> {
+    const layers = await getTemplateLayers();
+    const templates = await resolveTemplateLayers(layers);
+
+    logger.header('Templates');
+    logger.blank();
+
+    console.log(chalk.bold('Search path:'));
+    for (const [index, layer] of layers.entries()) {
+        const missing = await fs.pathExists(layer.root) ? '' : chalk.yellow(' (does not exist)');
+        console.log(`  ${index + 1}. ${formatLayer(layer)} ${chalk.dim(layer.root)}${missing}`);
+    }
+    console.log();
+
+    for (const template of templates) {
+        if (!options.resolved) {
+            const overridden = template.layer.kind === 'builtin' ? '' : chalk.dim(` (${template.layer.name})`);
+            console.log(`  ${template.path}${overridden}`);
+            continue;
+        }
+
+        const shadowed = template.shadowed.length > 0
+            ? chalk.dim(` shadows ${template.shadowed.map((l) => l.name).join(', ')}`)
+            : '';
+        console.log(`  ${template.path} ${chalk.dim('←')} ${formatLayer(template.layer)}${shadowed}`);
+    }
+
+    console.log();
+    const overridden = templates.filter((t) => t.layer.kind === 'override').length;
+    logger.info(`${templates.length} templates, ${overridden} overridden`);
+}
+
+/**
+ * Copy a template from the plugin or built-in layers into an override directory
+ */
+async function ejectTemplate(templatePath: string | undefined, options: TemplatesOptions): Promise<void> {
+    if (!templatePath) {
+        logger.error('Specify the template to eject, e.g. "scaffold templates eject common/README.md.hbs"');
+        process.exit(1);
+    }
+
+    const relativePath = templatePath.endsWith('.hbs') ? templatePath : `${templatePath}.hbs`;
+    const sources = (await getTemplateLayers()).filter((layer) => layer.kind !== 'override');
+    const templates = await resolveTemplateLayers(sources);
+    const template = templates.find((t) => t.path === relativePath);
+
+    if (!template) {
+        logger.error(`Template not found: ${relativePath}`);
+        logger.info('Run "scaffold templates list" to see the available templates');
+        process.exit(1);
+    }
+
+    const overrideRoot = options.to
+        ? path.resolve(process.cwd(), options.to)
+        : (await getOverrideLayers())[0]?.root;
+
+    if (!overrideRoot) {
+        logger.error('No template override directory is configured.');
+        logger.list([
+            `Add ${chalk.cyan('"templateOverrides": ["./templates"]')} to scaffold.config.json`,
+            `or pass ${chalk.cyan('--to <dir>')}`,
+        ]);
+        process.exit(1);
+    }
+
+    const destination = path.join(overrideRoot, relativePath);
+    if (await fs.pathExists(destination) && !options.force) {
+        logger.error(`${destination} already exists. Use --force to replace it.`);
+        process.exit(1);
+    }
+
+    await fs.ensureDir(path.dirname(destination));
+    await fs.copy(path.join(template.layer.root, relativePath), destination);
+
+    logger.success(`Ejected ${relativePath} from ${template.layer.name}`);
+    logger.keyValue('Edit', destination);
+
+    if (options.to && !(await getOverrideLayers()).some((layer) => layer.root === overrideRoot)) {
+        logger.warn(`${overrideRoot} is not in "templateOverrides", so the copy won't be used yet`);
+    }
+}
+
+/**
+ * Lint every template on the search path, or only those in one directory
+ * Exits with an error code if any problem is found
+ */
+async function lintTemplates(dir: string | undefined, options: TemplatesOptions): Promise<void> {
+    const layers: TemplateLayer[] = dir
+        ? [{ kind: 'template', name: dir, root: path.resolve(process.cwd(), dir) }]
+        : await getTemplateLayers();
+
+    logger.header('Lint Templates');
+    logger.blank();
+
+    if (dir && !await fs.pathExists(layers[0].root)) {
+        logger.error(`Directory not found: ${layers[0].root}`);
+        process.exit(1);
+    }
+
+    const results = await lintTemplateLayers(layers);
+
+    for (const result of results) {
+        const label = `${result.path} ${chalk.dim(`(${result.layer.name})`)}`;
+        logger.validation(result.issues.length === 0, label);
+
+        for (const issue of result.issues) {
+            const line = issue.file?.match(/:(\d+)$/)?.[1];
+            console.log(`      ${chalk.red(line ? `line ${line}:` : '')} ${issue.message}`);
+        }
+
+        if (options.variables) {
+            const { variables, helpers, partials } = result.references;
+            if (variables.length > 0) console.log(chalk.dim(`      variables: ${variables.join(', ')}`));
+            if (helpers.length > 0) console.log(chalk.dim(`      helpers: ${helpers.join(', ')}`));
+            if (partials.length > 0) console.log(chalk.dim(`      partials: ${partials.join(', ')}`));
+        }
+    }
+
+    // Generators can only be checked against the full search path
+    const generatorIssues = dir
+        ? []
+        : await lintGeneratorTemplates(layers.filter((l) => l.kind === 'override').map((l) => l.root));
+
+    if (generatorIssues.length > 0) {
+        console.log();
+        console.log(chalk.bold('Generator templates:'));
+        generatorIssues.forEach((issue) => logger.validation(false, issue.message));
+    }
+
+    const failed = results.filter((r) => r.issues.length > 0).length;
+    const problems = results.reduce((sum, r) => sum + r.issues.length, 0) + generatorIssues.length;
+
+    console.log();
+    if (problems > 0) {
+        logger.error(`${problems} problems in ${failed} of ${results.length} templates${generatorIssues.length > 0 ? ' and generator template lists' : ''}`);
+        process.exit(1);
+    }
+
+    logger.success(`${results.length} templates passed`);
+}
+
+function formatLayer(layer: TemplateLayer): string {
+    switch (layer.kind) {
+        case 'override':
+            return chalk.green(layer.name);
+        case 'plugin':
+            return chalk.cyan(layer.name);
+        default:
+            return layer.name;
+    }
+}
+
+export default templatesCommand;
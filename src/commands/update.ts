@@ -0,0 +1,357 @@
+/**
+ * Update Command
+ * Re-applies the current templates to a generated package
+ * Uses the config recorded in its manifest and three-way merges with local changes
+ */
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { select } from '@inquirer/prompts';
+import { diffLines } from 'diff';
+import type { CustomTemplate, GenerationManifest, RenderedFile } from '../types/index.js';
+import { logger } from '../core/logger.js';
+import { registry } from '../core/registry.js';
+import { generatePackage } from '../core/generator.js';
+import { FileTransaction } from '../core/transaction.js';
+import { readManifest, readBase, hashContent } from '../core/manifest.js';
+import { mergeThreeWay, conflictWhole, hasConflictMarkers } from '../core/merge.js';
+import { createFilePatch, printPatch } from '../core/preview.js';
+import { CLI_VERSION } from '../core/constants.js';
+import { loadCustomPresets } from '../presets/index.js';
+import { loadCustomTemplate } from '../core/custom-template.js';
+
+/**
+ * Update command options
+ */
+export interface UpdateOptions {
+    /** Show what would change without writing */
+    dryRun?: boolean;
+    /** Write conflict markers instead of resolving conflicts interactively */
+    markers?: boolean;
+}
+
+/**
+ * What happens to a single file on update
+ */
+type UpdateStatus =
+    | 'added'       // new in the templates
+    | 'updated'     // unchanged locally, replaced with the new version
+    | 'merged'      // changed on both sides, merged cleanly
+    | 'conflict'    // changed on both sides, needs resolving
+    | 'kept'        // changed locally, template unchanged
+    | 'unchanged'   // already up to date
+    | 'removed'     // dropped from the templates and unchanged locally
+    | 'obsolete'    // dropped from the templates but changed locally, left in place
+    | 'skipped';    // deleted locally, not restored
+
+/**
+ * Planned update for a single file
+ */
+interface FileUpdate {
+    path: string;
+    status: UpdateStatus;
+    /** Current contents on disk */
+    current?: string;
+    /** Newly rendered contents */
+    incoming?: string;
+    /** Contents to write */
+    content?: string;
+    /** Conflicting regions in content */
+    conflicts?: number;
+    /** Set for files copied verbatim: all contents are base64 */
+    encoding?: 'base64';
+    /** File mode to write with */
+    mode?: number;
+}
+
+const CONFLICT_LABELS = { current: 'current', incoming: `scaffold-kit ${CLI_VERSION}` };
+
+/**
+ * Run the update command
+ */
+export async function updateCommand(options: UpdateOptions = {}): Promise<void> {
+    const projectPath = process.cwd();
+
+    logger.header('Update Package');
+    logger.blank();
+
+    const manifest = await readManifest(projectPath);
+    if (!manifest) {
+        logger.error('No .scaffold/manifest.json found. Only packages created by scaffold-kit can be updated.');
+        process.exit(1);
+    }
+
+    const generator = registry.get(manifest.generator.id) || registry.getPrimary(manifest.generator.framework);
+    if (!generator) {
+        logger.error(`No generator available for ${manifest.generator.id} (${manifest.generator.framework})`);
+        process.exit(1);
+    }
+
+    logger.keyValue('Generator', `${manifest.generator.id}@${manifest.generator.version} → ${generator.meta.id}@${generator.meta.version}`);
+    logger.keyValue('CLI', `${manifest.cliVersion} → ${CLI_VERSION}`);
+    logger.blank();
+
+    // Custom presets may contribute hooks to the re-render
+    logger.issues(await loadCustomPresets());
+
+    // A custom template is reloaded too, which pulls the latest version of a git template
+    let template: CustomTemplate | undefined;
+    if (manifest.template) {
+        const loaded = await loadCustomTemplate(manifest.template, projectPath);
+        logger.issues(loaded.issues);
+        if (!loaded.template) {
+            process.exit(1);
+        }
+        template = loaded.template;
+        logger.keyValue('Template', `${template.descriptor.name} (${template.source})`);
+        logger.blank();
+    }
+
+    // Re-render the original config with the current templates
+    const result = await generatePackage(manifest.generator.framework, { ...manifest.config, outDir: projectPath }, {
+        dryRun: true,
+        generatorId: generator.meta.id,
+        template,
+    });
+
+    if (!result.success || !result.rendered) {
+        logger.error(`Rendering failed: ${result.error}`);
+        process.exit(1);
+    }
+
+    const scaffoldFiles = result.rendered.filter((f) => f.path.startsWith('.scaffold/'));
+    const rendered = result.rendered.filter((f) => !f.path.startsWith('.scaffold/'));
+    const updates = await planUpdates(projectPath, manifest, rendered);
+
+    logger.blank();
+    printSummary(updates);
+
+    const changes = updates.filter((u) => u.content !== undefined || u.status === 'removed');
+    if (changes.length === 0) {
+        logger.success('Package is up to date.');
+        return;
+    }
+
+    // Merging into a file with unresolved conflicts would bury them under new ones
+    const unresolved = changes.filter((u) => u.content !== undefined && !u.encoding && u.current && hasConflictMarkers(u.current));
+    if (unresolved.length > 0) {
+        logger.error('These files still have conflict markers from a previous update:');
+        logger.list(unresolved.map((u) => u.path));
+        logger.info('Resolve the sections between <<<<<<< and >>>>>>>, then run update again.');
+        process.exit(1);
+    }
+
+    if (options.dryRun) {
+        logger.blank();
+        console.log(chalk.yellow('📝 Dry run mode - no changes will be made'));
+        return;
+    }
+
+    // Resolve conflicts before writing anything
+    const conflicts = updates.filter((u) => u.status === 'conflict');
+    if (conflicts.length > 0 && !options.markers && process.stdin.isTTY && process.stdout.isTTY) {
+        for (const update of conflicts) {
+            await resolveConflict(update);
+        }
+    }
+
+    // Write merged files and removals with the new manifest and base, so the next update merges from here
+    const toWrite: RenderedFile[] = [
+        ...updates
+            .filter((u) => u.content !== undefined && u.content !== u.current)
+            .map((u) => ({ path: u.path, content: u.content!, encoding: u.encoding, mode: u.mode })),
+        ...scaffoldFiles,
+    ];
+
+    const transaction = new FileTransaction(projectPath);
+    try {
+        await transaction.stage(toWrite);
+        await transaction.remove(updates.filter((u) => u.status === 'removed').map((u) => u.path));
+        await transaction.commit();
+    } catch (error) {
+        transaction.rollback();
+        throw error;
+    } finally {
+        transaction.dispose();
+    }
+
+    logger.blank();
+    const remaining = updates.filter((u) => u.conflicts && u.conflicts > 0);
+    if (remaining.length > 0) {
+        logger.warn(`Updated with ${remaining.length} files containing conflict markers:`);
+        logger.list(remaining.map((u) => u.path));
+        logger.info('Resolve the sections between <<<<<<< and >>>>>>>, then commit.');
+    } else {
+        logger.success('Package updated!');
+    }
+}
+
+/**
+ * Work out what to do with every rendered file and every file dropped from the templates
+ */
+async function planUpdates(
+    projectPath: string,
+    manifest: GenerationManifest,
+    rendered: RenderedFile[]
+): Promise<FileUpdate[]> {
+    const base = await readBase(projectPath);
+    const updates: FileUpdate[] = [];
+
+    for (const file of rendered) {
+        const current = await readIfExists(path.join(projectPath, file.path), file.encoding);
+        const incoming = file.content;
+
+        // Prefer the recorded base; an unmodified file is its own base
+        const original = base?.[file.path] ?? (current !== undefined
+            && manifest.files[file.path] === hashContent(Buffer.from(current, file.encoding ?? 'utf-8')) ? current : undefined);
+
+        const update: FileUpdate = {
+            path: file.path,
+            status: 'unchanged',
+            current,
+            incoming,
+            encoding: file.encoding,
+            mode: file.mode,
+        };
+
+        if (current === undefined) {
+            update.status = original === undefined ? 'added' : 'skipped';
+            update.content = original === undefined ? incoming : undefined;
+        } else if (current === incoming) {
+            update.status = 'unchanged';
+        } else if (file.encoding === 'base64' && current !== original) {
+            // Copied files can't be merged, so local changes win
+            update.status = 'kept';
+        } else if (original === undefined) {
+            // No record of what was generated: both versions are kept for the user to pick from
+            const merged = conflictWhole(current, incoming, CONFLICT_LABELS);
+            update.status = 'conflict';
+            update.content = merged.content;
+            update.conflicts = merged.conflicts;
+        } else if (current === original) {
+            update.status = 'updated';
+            update.content = incoming;
+        } else if (incoming === original) {
+            update.status = 'kept';
+        } else {
+            const merged = mergeThreeWay(original, current, incoming, CONFLICT_LABELS);
+            update.status = merged.conflicts > 0 ? 'conflict' : 'merged';
+            update.content = merged.content;
+            update.conflicts = merged.conflicts;
+        }
+
+        updates.push(update);
+    }
+
+    // Files the templates no longer generate
+    const renderedPaths = new Set(rendered.map((f) => f.path));
+    for (const [file, hash] of Object.entries(manifest.files)) {
+        if (renderedPaths.has(file)) {
+            continue;
+        }
+
+        const filePath = path.join(projectPath, file);
+        if (await fs.pathExists(filePath)) {
+            const status = hashContent(await fs.readFile(filePath)) === hash ? 'removed' : 'obsolete';
+            updates.push({ path: file, status, current: await fs.readFile(filePath, 'utf-8') });
+        }
+    }
+
+    return updates;
+}
+
+/**
+ * Ask how to resolve a conflicting file
+ */
+async function resolveConflict(update: FileUpdate): Promise<void> {
+    while (true) {
+        const choice = await select({
+            message: `${update.path} has ${update.conflicts} conflicting ${update.conflicts === 1 ? 'change' : 'changes'}:`,
+            choices: [
+                { value: 'markers', name: 'Write conflict markers', description: 'Resolve by hand later' },
+                { value: 'current', name: 'Keep my version', description: 'Ignore the template changes' },
+                { value: 'incoming', name: 'Use the new template', description: 'Discard local changes' },
+                { value: 'diff', name: 'Show diff', description: 'Compare my version with the new template' },
+            ],
+            default: 'markers',
+        });
+
+        switch (choice) {
+            case 'diff':
+                printPatch(createFilePatch(update.path, update.current, update.incoming!));
+                continue;
+            case 'current':
+                update.content = update.current;
+                update.conflicts = 0;
+                return;
+            case 'incoming':
+                update.content = update.incoming;
+                update.conflicts = 0;
+                return;
+            default:
+                return;
+        }
+    }
+}
+
+/**
+ * Print what changes per file
+ */
+function printSummary(updates: FileUpdate[]): void {
+    const icons: Record<UpdateStatus, string> = {
+        added: chalk.green('+'),
+        updated: chalk.cyan('~'),
+        merged: chalk.cyan('⇄'),
+        conflict: chalk.red('!'),
+        kept: chalk.dim('='),
+        unchanged: chalk.dim('='),
+        removed: chalk.red('-'),
+        obsolete: chalk.yellow('?'),
+        skipped: chalk.dim('×'),
+    };
+
+    const notes: Partial<Record<UpdateStatus, string>> = {
+        kept: 'local changes kept',
+        conflict: 'conflicts',
+        obsolete: 'no longer generated, modified locally',
+        skipped: 'deleted locally, not restored',
+    };
+
+    console.log(chalk.bold('📋 Changes:'));
+    console.log();
+
+    for (const update of updates.filter((u) => u.status !== 'unchanged')) {
+        const stats = update.content !== undefined && !update.encoding
+            ? ` ${formatLineStats(update.current ?? '', update.content)}`
+            : '';
+        const note = notes[update.status] ? chalk.dim(` (${notes[update.status]})`) : '';
+        console.log(`  ${icons[update.status]} ${update.status.padEnd(8)} ${update.path}${stats}${note}`);
+    }
+
+    const unchanged = updates.filter((u) => u.status === 'unchanged').length;
+    if (unchanged > 0) {
+        console.log(chalk.dim(`  ${unchanged} files unchanged`));
+    }
+    console.log();
+}
+
+/**
+ * Format added and removed line counts between two versions
+ */
+function formatLineStats(before: string, after: string): string {
+    let added = 0;
+    let removed = 0;
+
+    for (const change of diffLines(before, after)) {
+        if (change.added) added += change.count ?? 0;
+        if (change.removed) removed += change.count ?? 0;
+    }
+
+    return `${chalk.green(`+${added}`)} ${chalk.red(`-${removed}`)}`;
+}
+
+async function readIfExists(filePath: string, encoding?: 'base64'): Promise<string | undefined> {
+    return await fs.pathExists(filePath) ? fs.readFile(filePath, encoding ?? 'utf-8') : undefined;
+}
+
+export default updateCommand;
@@ -0,0 +1,65 @@
+/**
+ * Versions Command
+ * Print the version catalog new packages get their dependency versions from,
+ * with the overrides from scaffold config
+ */
+import path from 'path';
+import chalk from 'chalk';
+import type { CatalogEntry } from '../core/versions.js';
+import { versionCatalog } from '../core/versions.js';
+import { logger } from '../core/logger.js';
+
+/**
+ * Versions command options
+ */
+export interface VersionsOptions {
+    /** Print the catalog as JSON */
+    json?: boolean;
+}
+
+/**
+ * Run the versions command
+ */
+export async function versionsCommand(options: VersionsOptions = {}): Promise<void> {
+    const entries = versionCatalog.getEntries();
+    const versions = entries.filter((e) => e.kind === 'version');
+    const peerRanges = entries.filter((e) => e.kind === 'peerRange');
+
+    if (options.json) {
+        const toRecord = (list: CatalogEntry[]) => Object.fromEntries(list.map((e) => [e.name, e.version]));
+        console.log(JSON.stringify({ versions: toRecord(versions), peerRanges: toRecord(peerRanges) }, null, 2));
+        return;
+    }
+
+    logger.header('Version Catalog');
+    logger.blank();
+
+    const width = Math.max(...entries.map((e) => e.name.length));
+
+    console.log(chalk.bold('Versions:'));
+    versions.forEach((entry) => printEntry(entry, width));
+    console.log();
+
+    console.log(chalk.bold('Peer ranges:'));
+    peerRanges.forEach((entry) => printEntry(entry, width));
+    console.log();
+
+    const overridden = entries.filter((e) => e.source).length;
+    logger.info(`${entries.length} entries, ${overridden} overridden`);
+    if (overridden === 0) {
+        logger.info('Override versions with "versions" and "peerRanges" in scaffold.config.json or ~/.scaffoldrc.json');
+    }
+}
+
+function printEntry(entry: CatalogEntry, width: number): void {
+    let note = '';
+    if (entry.source) {
+        const replaced = entry.defaultVersion ? `was ${entry.defaultVersion}, ` : '';
+        note = chalk.dim(` (${replaced}from ${path.relative(process.cwd(), entry.source) || entry.source})`);
+    }
+
+    const version = entry.source ? chalk.green(entry.version) : entry.version;
+    console.log(`  ${entry.name.padEnd(width)}  ${version}${note}`);
+}
+
+export default versionsCommand;
@@ -0,0 +1,276 @@
+/**
+ * Answers
+ * Loading, validation and persistence of create answers
+ * Allows the create wizard to run non-interactively from flags or an answers file
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import validateNpmPackageName from 'validate-npm-package-name';
+import type {
+    RuntimeTarget,
+    ValidationIssue,
+    WizardAnswers,
+} from '../types/index.js';
+import { registry } from './registry.js';
+import {
+    PACKAGE_TYPES,
+    PACKAGE_MANAGERS,
+    BUILD_SYSTEMS,
+    RUNTIME_TARGETS,
+    MODULE_FORMATS,
+    STYLING_STRATEGIES,
+    SUBPATH_EXPORT_PATTERN,
+} from './constants.js';
+import { getPresetNames } from '../presets/index.js';
+
+/**
+ * Schema entry for a single answer field
+ */
+interface AnswerField {
+    type: 'string' | 'boolean' | 'string[]';
+    /** Allowed values, or a function returning them when they are only known at runtime */
+    values?: readonly string[] | (() => readonly string[]);
+    required: boolean;
+    /** How the value can be supplied on the command line */
+    flag: string;
+}
+
+/**
+ * Schema for the answers accepted by the create command
+ */
+const ANSWER_SCHEMA: Record<keyof WizardAnswers, AnswerField> = {
+    name: { type: 'string', required: true, flag: '[name] argument' },
+    description: { type: 'string', required: true, flag: '--description' },
+    framework: { type: 'string', values: () => registry.getSupportedFrameworks(), required: true, flag: '--framework' },
+    generator: { type: 'string', values: () => registry.getAll().map((g) => g.meta.id), required: false, flag: '--generator' },
+    template: { type: 'string', required: false, flag: '--template' },
+    packageType: { type: 'string', values: PACKAGE_TYPES, required: true, flag: '--type' },
+    packageManager: { type: 'string', values: PACKAGE_MANAGERS, required: true, flag: '--pm' },
+    buildSystem: { type: 'string', values: BUILD_SYSTEMS, required: true, flag: '--build' },
+    runtimeTarget: { type: 'string', values: RUNTIME_TARGETS, required: true, flag: '--target' },
+    moduleFormat: { type: 'string', values: MODULE_FORMATS, required: true, flag: '--format' },
+    license: { type: 'string', required: true, flag: '--license' },
+    author: { type: 'string', required: true, flag: '--author' },
+    repository: { type: 'string', required: false, flag: '--repository' },
+    includeExample: { type: 'boolean', required: true, flag: '--example / --no-example' },
+    subpathExports: { type: 'string[]', required: false, flag: '--export' },
+    styling: { type: 'string', values: STYLING_STRATEGIES, required: false, flag: '--styling' },
+    preset: { type: 'string', values: getPresetNames, required: false, flag: '--preset' },
+    initGit: { type: 'boolean', required: false, flag: '--git / --no-git' },
+    installDependencies: { type: 'boolean', required: false, flag: '--install / --no-install' },
+    setupHusky: { type: 'boolean', required: false, flag: '--husky / --no-husky' },
+};
+
+/**
+ * Validate raw answers (from flags or a file) against the answer schema
+ */
+export function validateAnswers(
+    raw: unknown,
+    source: string
+): { answers: Partial<WizardAnswers>; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = [];
+    const answers: Record<string, unknown> = {};
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        issues.push({
+            severity: 'error',
+            category: 'answers',
+            message: 'Answers must be a JSON object',
+            file: source,
+        });
+        return { answers: {}, issues };
+    }
+
+    for (const [key, value] of Object.entries(raw)) {
+        if (value === undefined) {
+            continue;
+        }
+
+        const field = ANSWER_SCHEMA[key as keyof WizardAnswers];
+
+        if (!field) {
+            issues.push({
+                severity: 'warning',
+                category: 'answers',
+                message: `Unknown answer "${key}" will be ignored`,
+                file: source,
+                jsonPath: key,
+            });
+            continue;
+        }
+
+        const matchesType = field.type === 'string[]'
+            ? Array.isArray(value) && value.every((item) => typeof item === 'string')
+            : typeof value === field.type;
+        if (!matchesType) {
+            issues.push({
+                severity: 'error',
+                category: 'answers',
+                message: `"${key}" must be a ${field.type === 'string[]' ? 'list of strings' : field.type}, got ${Array.isArray(value) ? 'a list' : typeof value}`,
+                file: source,
+                jsonPath: key,
+            });
+            continue;
+        }
+
+        const allowed = typeof field.values === 'function' ? field.values() : field.values;
+        if (allowed && !allowed.includes(value as string)) {
+            issues.push({
+                severity: 'error',
+                category: 'answers',
+                message: `"${key}" has invalid value "${value}"`,
+                suggestion: `Allowed values: ${allowed.join(', ')}`,
+                file: source,
+                jsonPath: key,
+            });
+            continue;
+        }
+
+        answers[key] = value;
+    }
+
+    if (typeof answers.name === 'string') {
+        const result = validateNpmPackageName(answers.name);
+        if (!result.validForNewPackages) {
+            const errors = [...(result.errors || []), ...(result.warnings || [])];
+            issues.push({
+                severity: 'error',
+                category: 'answers',
+                message: `"name" is not a valid package name: ${errors[0] || answers.name}`,
+                file: source,
+                jsonPath: 'name',
+            });
+            delete answers.name;
+        }
+    }
+
+    if (Array.isArray(answers.subpathExports)) {
+        const invalid = (answers.subpathExports as string[]).filter((subpath) => !SUBPATH_EXPORT_PATTERN.test(subpath));
+        if (invalid.length > 0) {
+            issues.push({
+                severity: 'error',
+                category: 'answers',
+                message: `"subpathExports" has invalid subpaths: ${invalid.join(', ')}`,
+                suggestion: 'Use "./" followed by path segments, optionally ending in "/*", e.g. "./components" or "./icons/*"',
+                file: source,
+                jsonPath: 'subpathExports',
+            });
+            delete answers.subpathExports;
+        }
+    }
+
+    // A generator implies its framework
+    if (typeof answers.generator === 'string') {
+        const generator = registry.get(answers.generator)!;
+        if (answers.framework === undefined) {
+            answers.framework = generator.meta.framework;
+        } else if (answers.framework !== generator.meta.framework) {
+            issues.push({
+                severity: 'error',
+                category: 'answers',
+                message: `Generator "${answers.generator}" is for ${generator.meta.framework}, not ${answers.framework}`,
+                file: source,
+                jsonPath: 'generator',
+            });
+            delete answers.generator;
+        }
+    }
+
+    return { answers: answers as Partial<WizardAnswers>, issues };
+}
+
+/**
+ * Load and validate an answers file
+ */
+export async function loadAnswersFile(
+    filePath: string
+): Promise<{ answers: Partial<WizardAnswers>; issues: ValidationIssue[] }> {
+    const fullPath = path.resolve(process.cwd(), filePath);
+
+    if (!await fs.pathExists(fullPath)) {
+        return {
+            answers: {},
+            issues: [{
+                severity: 'error',
+                category: 'answers',
+                message: `Answers file not found: ${filePath}`,
+                file: filePath,
+            }],
+        };
+    }
+
+    let raw: unknown;
+    try {
+        raw = await fs.readJson(fullPath);
+    } catch (error) {
+        return {
+            answers: {},
+            issues: [{
+                severity: 'error',
+                category: 'answers',
+                message: `Answers file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+                file: filePath,
+            }],
+        };
+    }
+
+    return validateAnswers(raw, filePath);
+}
+
+/**
+ * Write answers to a file so a creation can be replayed
+ */
+export async function saveAnswersFile(filePath: string, answers: WizardAnswers): Promise<void> {
+    const fullPath = path.resolve(process.cwd(), filePath);
+    await fs.ensureDir(path.dirname(fullPath));
+    await fs.writeJson(fullPath, answers, { spaces: 2 });
+}
+
+/**
+ * Fill in defaults for every answer that can be derived
+ * Name and framework have no sensible default and are left untouched
+ */
+export function applyAnswerDefaults(answers: Partial<WizardAnswers>): Partial<WizardAnswers> {
+    const generator = answers.generator
+        ? registry.get(answers.generator)
+        : answers.framework
+            ? registry.findCompatible(answers.framework, answers)[0]
+            : undefined;
+    const supportedTargets = generator?.meta.supportedRuntimeTargets || RUNTIME_TARGETS;
+    const preferredTarget: RuntimeTarget = answers.framework === 'node' ? 'node' : 'browser';
+
+    return {
+        description: answers.name ? `A ${answers.name} package` : undefined,
+        packageType: generator?.meta.supportedPackageTypes[0],
+        packageManager: 'npm',
+        buildSystem: generator?.meta.recommendedBuildSystem || 'tsup',
+        runtimeTarget: supportedTargets.includes(preferredTarget) ? preferredTarget : supportedTargets[0],
+        moduleFormat: 'esm',
+        license: 'MIT',
+        author: process.env.npm_config_init_author_name || '',
+        includeExample: true,
+        // Post-generation actions change more than the output directory, so they're only run when asked for
+        initGit: false,
+        installDependencies: false,
+        setupHusky: false,
+        ...stripUndefined(answers),
+    };
+}
+
+/**
+ * Get required answers that have not been provided
+ */
+export function getMissingAnswers(answers: Partial<WizardAnswers>): Array<{ field: keyof WizardAnswers; flag: string }> {
+    return (Object.keys(ANSWER_SCHEMA) as Array<keyof WizardAnswers>)
+        .filter((field) => ANSWER_SCHEMA[field].required && answers[field] === undefined)
+        .map((field) => ({ field, flag: ANSWER_SCHEMA[field].flag }));
+}
+
+/**
+ * Remove undefined values so they don't override defaults when spread
+ */
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(obj).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+}
@@ -3,6 +3,7 @@
  * Provides common functionality for all framework generators
  * Framework-specific generators extend this class
  */
+import path from 'path';
 import type {
     Generator,
     GeneratorMeta,
@@ -17,6 +18,8 @@ import type {
     RuntimeTarget,
     BuildSystem,
 } from '../types/index.js';
+import { versionCatalog } from './versions.js';
+import { STYLING_BUILD_SYSTEMS, SUBPATH_EXPORT_PATTERN } from './constants.js';
 
 /**
  * Abstract base class for generators
@@ -25,6 +28,11 @@ import type {
 export abstract class BaseGenerator implements Generator {
     abstract readonly meta: GeneratorMeta;
 
+    /**
+     * Directory the package's entry points are in
+     */
+    protected readonly sourceDir: string = 'src';
+
     /**
      * Get framework-specific dependencies
      * Override in subclass
@@ -58,45 +66,67 @@ export abstract class BaseGenerator implements Generator {
     protected getCommonDependencies(config: GeneratorConfig): DependencySpec[] {
         const deps: DependencySpec[] = [
             // TypeScript is always included
-            { name: 'typescript', version: '^5.7.0', type: 'devDependency' },
-            { name: '@types/node', version: '^22.0.0', type: 'devDependency' },
+            this.devDep('typescript'),
+            this.devDep('@types/node'),
         ];
 
         // Build system dependencies
         switch (config.buildSystem) {
             case 'tsup':
-                deps.push({ name: 'tsup', version: '^8.3.0', type: 'devDependency' });
+                deps.push(this.devDep('tsup'));
                 break;
             case 'vite':
-                deps.push(
-                    { name: 'vite', version: '^6.0.0', type: 'devDependency' },
-                    { name: 'vite-plugin-dts', version: '^4.3.0', type: 'devDependency' }
-                );
+                deps.push(this.devDep('vite'), this.devDep('vite-plugin-dts'));
                 break;
             case 'rollup':
                 deps.push(
-                    { name: 'rollup', version: '^4.28.0', type: 'devDependency' },
-                    { name: '@rollup/plugin-typescript', version: '^12.1.0', type: 'devDependency' },
-                    { name: '@rollup/plugin-node-resolve', version: '^16.0.0', type: 'devDependency' },
-                    { name: 'tslib', version: '^2.8.0', type: 'devDependency' }
+                    this.devDep('rollup'),
+                    this.devDep('@rollup/plugin-typescript'),
+                    this.devDep('@rollup/plugin-node-resolve'),
+                    this.devDep('tslib')
                 );
                 break;
             case 'unbuild':
-                deps.push({ name: 'unbuild', version: '^3.0.0', type: 'devDependency' });
+                deps.push(this.devDep('unbuild'));
                 break;
             case 'esbuild':
-                deps.push({ name: 'esbuild', version: '^0.24.0', type: 'devDependency' });
+                deps.push(this.devDep('esbuild'));
                 break;
         }
 
+        deps.push(...this.getStylingDependencies(config));
+
         // Testing dependencies
-        deps.push(
-            { name: 'vitest', version: '^2.1.0', type: 'devDependency' }
-        );
+        deps.push(this.devDep('vitest'));
 
         return deps;
     }
 
+    /**
+     * Dependencies of the styling strategy: the build plugins that extract its styles, or the Tailwind CLI
+     */
+    protected getStylingDependencies(config: GeneratorConfig): DependencySpec[] {
+        switch (config.styling) {
+            case 'css':
+            case 'css-modules':
+                return config.buildSystem === 'rollup' ? [this.devDep('rollup-plugin-postcss'), this.devDep('postcss')] : [];
+            case 'tailwind':
+                return [this.devDep('tailwindcss'), this.devDep('@tailwindcss/cli')];
+            case 'vanilla-extract': {
+                // The Vite plugin also compiles the styles for Vitest
+                const deps = [this.devDep('@vanilla-extract/css'), this.devDep('@vanilla-extract/vite-plugin')];
+                if (config.buildSystem === 'tsup') {
+                    deps.push(this.devDep('@vanilla-extract/esbuild-plugin'));
+                } else if (config.buildSystem === 'rollup') {
+                    deps.push(this.devDep('@vanilla-extract/rollup-plugin'));
+                }
+                return deps;
+            }
+            default:
+                return [];
+        }
+    }
+
     /**
      * Get exports configuration for package.json
      */
@@ -106,6 +136,7 @@ export abstract class BaseGenerator implements Generator {
         // Main export
         const mainExport: ExportConfig = {
             path: '.',
+            source: `${this.sourceDir}/index.ts`,
             types: './dist/index.d.ts',
             import: './dist/index.js',
         };
@@ -120,16 +151,82 @@ export abstract class BaseGenerator implements Generator {
 
         exports.push(mainExport);
 
+        // Subpath exports, each built from its own entry point
+        for (const subpath of config.subpathExports || []) {
+            exports.push(this.getSubpathExport(subpath, config));
+        }
+
+        // The stylesheet the components' styles are built into
+        if (config.styling && config.styling !== 'none') {
+            exports.push({ path: './styles.css', default: this.getStylesheet(config) });
+        }
+
         return exports;
     }
 
+    /**
+     * Get the stylesheet a styled package's styles are built into
+     * tsup and esbuild name it after the entry point that imports the styles
+     */
+    protected getStylesheet(config: GeneratorConfig): string {
+        const bundled = config.styling !== 'tailwind';
+        return bundled && (config.buildSystem === 'tsup' || config.buildSystem === 'esbuild')
+            ? './dist/index.css'
+            : './dist/styles.css';
+    }
+
+    /**
+     * Get the export for a subpath
+     * "./components" is built from src/components/index.ts; a wildcard export such as "./icons/*"
+     * exposes every module in src/icons
+     */
+    protected getSubpathExport(subpath: string, config: GeneratorConfig): ExportConfig {
+        const wildcard = subpath.endsWith('/*');
+        const output = wildcard ? subpath.slice(2) : `${subpath.slice(2)}/index`;
+
+        const subpathExport: ExportConfig = {
+            path: subpath,
+            source: `${this.sourceDir}/${output}.ts`,
+            types: `./dist/${output}.d.ts`,
+            import: `./dist/${output}.js`,
+        };
+
+        if (config.moduleFormat === 'dual') {
+            subpathExport.require = `./dist/${output}.cjs`;
+        }
+
+        subpathExport.default = `./dist/${output}.js`;
+
+        return subpathExport;
+    }
+
     /**
      * Get files to generate
      */
     getFiles(config: GeneratorConfig): GeneratedFile[] {
         const common = this.getCommonFiles(config);
         const framework = this.getFrameworkFiles(config);
-        return [...common, ...framework];
+        const files = [...common, ...framework];
+
+        // Subpath exports start out empty unless the framework files already provide their entry point
+        for (const subpath of config.subpathExports || []) {
+            const source = this.getSubpathExport(subpath, config).source!;
+
+            if (subpath.endsWith('/*')) {
+                const dir = path.posix.dirname(source);
+                if (!files.some((f) => f.path.startsWith(`${dir}/`))) {
+                    files.push({ path: `${dir}/.gitkeep`, template: '', isTemplate: false });
+                }
+            } else if (!files.some((f) => f.path === source)) {
+                files.push({
+                    path: source,
+                    template: `/**\n * ${config.name}/${subpath.slice(2)}\n */\nexport {};\n`,
+                    isTemplate: false,
+                });
+            }
+        }
+
+        return files;
     }
 
     /**
@@ -141,11 +238,17 @@ export abstract class BaseGenerator implements Generator {
             { path: 'tsconfig.json', template: 'common/tsconfig.json.hbs', isTemplate: true },
             { path: 'README.md', template: 'common/README.md.hbs', isTemplate: true },
             { path: 'LICENSE', template: 'common/LICENSE.hbs', isTemplate: true },
-            { path: '.gitignore', template: 'common/gitignore.hbs', isTemplate: true },
             { path: '.npmignore', template: 'common/npmignore.hbs', isTemplate: true },
             { path: 'CHANGELOG.md', template: 'common/CHANGELOG.md.hbs', isTemplate: true },
         ];
 
+        // In a workspace, repository-level files belong to the root
+        const standalone = !config.workspace;
+
+        if (standalone) {
+            files.push({ path: '.gitignore', template: 'common/gitignore.hbs', isTemplate: true });
+        }
+
         // Build config based on build system
         switch (config.buildSystem) {
             case 'tsup':
@@ -162,30 +265,41 @@ export abstract class BaseGenerator implements Generator {
                 break;
         }
 
+        // Tailwind's input stylesheet; the CLI builds dist/styles.css from it
+        if (config.styling === 'tailwind') {
+            files.push({ path: 'src/styles.css', template: 'common/tailwind.css.hbs', isTemplate: true });
+        }
+
         // Vitest config
         files.push({ path: 'vitest.config.ts', template: 'common/vitest.config.ts.hbs', isTemplate: true });
 
         // CI Templates
-        if (config.ciProvider === 'github-actions') {
+        if (standalone && config.ciProvider === 'github-actions') {
             files.push({ path: '.github/workflows/ci.yml', template: 'ci/github-actions.yml.hbs', isTemplate: true });
-        } else if (config.ciProvider === 'gitlab-ci') {
+        } else if (standalone && config.ciProvider === 'gitlab-ci') {
             files.push({ path: '.gitlab-ci.yml', template: 'ci/gitlab-ci.yml.hbs', isTemplate: true });
         }
 
         // Commitlint config
-        if (config.includeCommitlint) {
+        if (standalone && config.includeCommitlint) {
             files.push({ path: 'commitlint.config.js', template: 'common/commitlint.config.js.hbs', isTemplate: true });
         }
 
         // Changesets config
-        if (config.includeChangesets) {
+        if (standalone && config.includeChangesets) {
             files.push({ path: '.changeset/config.json', template: 'common/changeset-config.json.hbs', isTemplate: true });
         }
 
+        // Formatting config matching how the files were formatted
+        if (standalone && config.includeFormattingConfig) {
+            files.push({ path: '.prettierrc', template: 'common/prettierrc.hbs', isTemplate: true });
+            files.push({ path: '.editorconfig', template: 'common/editorconfig.hbs', isTemplate: true });
+        }
+
         // Husky hooks
-        if (config.includeHusky) {
-            files.push({ path: '.husky/commit-msg', template: 'common/husky-commit-msg.hbs', isTemplate: true });
-            files.push({ path: '.husky/pre-commit', template: 'common/husky-pre-commit.hbs', isTemplate: true });
+        if (standalone && config.includeHusky) {
+            files.push({ path: '.husky/commit-msg', template: 'common/husky-commit-msg.hbs', isTemplate: true, mode: 0o755 });
+            files.push({ path: '.husky/pre-commit', template: 'common/husky-pre-commit.hbs', isTemplate: true, mode: 0o755 });
         }
 
         return files;
@@ -209,7 +323,8 @@ export abstract class BaseGenerator implements Generator {
      */
     protected getCommonPackageJsonExtras(config: GeneratorConfig): Record<string, unknown> {
         const extras: Record<string, unknown> = {
-            sideEffects: false,
+            // Stylesheets are imported only for their side effects, so bundlers must keep them
+            sideEffects: config.styling && config.styling !== 'none' ? ['**/*.css'] : false,
             files: ['dist', 'README.md', 'LICENSE', 'CHANGELOG.md'],
         };
 
@@ -260,6 +375,50 @@ export abstract class BaseGenerator implements Generator {
             });
         }
 
+        // Validate subpath exports
+        const subpaths = new Set(this.getExports({ ...config, subpathExports: [] }).map((e) => e.path));
+        for (const subpath of config.subpathExports || []) {
+            if (!SUBPATH_EXPORT_PATTERN.test(subpath)) {
+                issues.push({
+                    severity: 'error',
+                    category: 'config',
+                    message: `Subpath export "${subpath}" is not valid`,
+                    suggestion: 'Use "./" followed by path segments, optionally ending in "/*", e.g. "./components" or "./icons/*"',
+                });
+            } else if (subpaths.has(subpath)) {
+                issues.push({
+                    severity: 'error',
+                    category: 'config',
+                    message: `Subpath export "${subpath}" is listed more than once`,
+                });
+            }
+            subpaths.add(subpath);
+        }
+
+        // Validate styling
+        if (config.styling && config.styling !== 'none') {
+            const supportedStyling = this.meta.supportedStyling || [];
+            const buildSystems = STYLING_BUILD_SYSTEMS[config.styling];
+
+            if (!supportedStyling.includes(config.styling)) {
+                issues.push({
+                    severity: 'error',
+                    category: 'config',
+                    message: `Styling "${config.styling}" is not supported by ${this.meta.name}`,
+                    suggestion: supportedStyling.length > 0
+                        ? `Supported styling: none, ${supportedStyling.join(', ')}`
+                        : 'Leave styling unset',
+                });
+            } else if (!buildSystems.includes(config.buildSystem)) {
+                issues.push({
+                    severity: 'error',
+                    category: 'config',
+                    message: `${config.buildSystem} can't bundle "${config.styling}" styles`,
+                    suggestion: `Use one of: ${buildSystems.join(', ')}`,
+                });
+            }
+        }
+
         // Framework-specific validation
         const frameworkValidation = this.validateFrameworkConfig(config);
         issues.push(...frameworkValidation);
@@ -288,33 +447,35 @@ export abstract class BaseGenerator implements Generator {
 
     /**
      * Helper to create a dependency spec
+     * Without a version, the version comes from the version catalog
      */
     protected dep(
         name: string,
-        version: string,
+        version?: string,
         type: DependencySpec['type'] = 'dependency'
     ): DependencySpec {
-        return { name, version, type };
+        return { name, version: version ?? versionCatalog.getVersion(name), type };
     }
 
     /**
      * Helper to create a peer dependency spec
+     * Without a range, the range comes from the version catalog's peer ranges
      */
-    protected peerDep(name: string, version: string): DependencySpec {
-        return { name, version, type: 'peerDependency' };
+    protected peerDep(name: string, range?: string): DependencySpec {
+        return { name, version: range ?? versionCatalog.getPeerRange(name), type: 'peerDependency' };
     }
 
     /**
      * Helper to create a dev dependency spec
      */
-    protected devDep(name: string, version: string): DependencySpec {
-        return { name, version, type: 'devDependency' };
+    protected devDep(name: string, version?: string): DependencySpec {
+        return this.dep(name, version, 'devDependency');
     }
 
     /**
      * Helper to create an optional dependency spec
      */
-    protected optionalDep(name: string, version: string): DependencySpec {
-        return { name, version, type: 'optionalDependency' };
+    protected optionalDep(name: string, version?: string): DependencySpec {
+        return this.dep(name, version, 'optionalDependency');
     }
 }
@@ -0,0 +1,262 @@
+/**
+ * Scaffold Config
+ * Loads user (home directory) and project config files
+ * Project config is layered over user config
+ */
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import type { ScaffoldConfig, ValidationIssue } from '../types/index.js';
+
+/**
+ * Config file names searched for in the project, in order of precedence
+ */
+export const PROJECT_CONFIG_FILES = ['scaffold.config.json', '.scaffoldrc.json'];
+
+/**
+ * Config file name in the user's home directory
+ */
+export const USER_CONFIG_FILE = '.scaffoldrc.json';
+
+/**
+ * Expected type of each config field
+ * Presets are validated by the preset loader, formatting options by Prettier
+ */
+type ConfigFieldType = 'boolean' | 'stringList' | 'stringRecord' | 'object';
+
+const CONFIG_SCHEMA: Record<keyof ScaffoldConfig, ConfigFieldType> = {
+    presets: 'object',
+    presetPackages: 'stringList',
+    generators: 'stringList',
+    hooks: 'stringList',
+    templateOverrides: 'stringList',
+    strictTemplates: 'boolean',
+    formatting: 'object',
+    includeFormattingConfig: 'boolean',
+    versions: 'stringRecord',
+    peerRanges: 'stringRecord',
+};
+
+/**
+ * A single config file that was loaded
+ */
+export interface ConfigLayer {
+    /** Absolute path of the config file */
+    file: string;
+    /** Where the config came from */
+    scope: 'user' | 'project';
+    /** Parsed contents */
+    config: ScaffoldConfig;
+}
+
+/**
+ * Loaded config, merged and per layer
+ */
+export interface LoadedConfig {
+    /** Merged config (project over user) */
+    config: ScaffoldConfig;
+    /** Individual layers in load order (user first) */
+    layers: ConfigLayer[];
+    /** Problems found in the config files; invalid fields and entries are left out of the config */
+    issues: ValidationIssue[];
+}
+
+const cache = new Map<string, LoadedConfig>();
+
+/**
+ * Load the scaffold config for a directory
+ */
+export async function loadScaffoldConfig(cwd: string = process.cwd()): Promise<LoadedConfig> {
+    const cached = cache.get(cwd);
+    if (cached) {
+        return cached;
+    }
+
+    const layers: ConfigLayer[] = [];
+    const issues: ValidationIssue[] = [];
+
+    const userFile = path.join(os.homedir(), USER_CONFIG_FILE);
+    const projectFile = await findProjectConfig(cwd);
+
+    if (await fs.pathExists(userFile) && userFile !== projectFile) {
+        const validated = validateScaffoldConfig(await readConfigFile(userFile), userFile);
+        layers.push({ file: userFile, scope: 'user', config: validated.config });
+        issues.push(...validated.issues);
+    }
+
+    if (projectFile) {
+        const validated = validateScaffoldConfig(await readConfigFile(projectFile), projectFile);
+        layers.push({ file: projectFile, scope: 'project', config: validated.config });
+        issues.push(...validated.issues);
+    }
+
+    const config = layers.reduce<ScaffoldConfig>(
+        (merged, layer) => mergeConfig(merged, layer.config),
+        {}
+    );
+
+    const loaded = { config, layers, issues };
+    cache.set(cwd, loaded);
+    return loaded;
+}
+
+/**
+ * Find the nearest project config file, walking up from a directory
+ */
+async function findProjectConfig(startDir: string): Promise<string | null> {
+    let dir = path.resolve(startDir);
+    const home = os.homedir();
+
+    while (true) {
+        for (const name of PROJECT_CONFIG_FILES) {
+            const candidate = path.join(dir, name);
+            // The home directory's .scaffoldrc.json is the user config, not a project config
+            if (dir === home && name === USER_CONFIG_FILE) {
+                continue;
+            }
+            if (await fs.pathExists(candidate)) {
+                return candidate;
+            }
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return null;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Read and parse a config file
+ */
+async function readConfigFile(file: string): Promise<Record<string, unknown>> {
+    try {
+        const config = await fs.readJson(file);
+        if (!isPlainObject(config)) {
+            throw new Error('expected a JSON object');
+        }
+        return config;
+    } catch (error) {
+        throw new Error(`Invalid scaffold config ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Validate a parsed config file against the config schema
+ * Returns the config without the invalid fields and entries, and the problems found
+ */
+export function validateScaffoldConfig(
+    raw: Record<string, unknown>,
+    file: string
+): { config: ScaffoldConfig; issues: ValidationIssue[] } {
+    const config: Record<string, unknown> = {};
+    const issues: ValidationIssue[] = [];
+    const error = (message: string, jsonPath: string): void => {
+        issues.push({ severity: 'error', category: 'config', message, file, jsonPath });
+    };
+
+    for (const [key, value] of Object.entries(raw)) {
+        const type = CONFIG_SCHEMA[key as keyof ScaffoldConfig];
+
+        if (!type) {
+            issues.push({
+                severity: 'warning',
+                category: 'config',
+                message: `Unknown config field "${key}" will be ignored`,
+                suggestion: `Known fields: ${Object.keys(CONFIG_SCHEMA).join(', ')}`,
+                file,
+                jsonPath: key,
+            });
+            continue;
+        }
+
+        switch (type) {
+            case 'boolean':
+                if (typeof value !== 'boolean') {
+                    error(`"${key}" must be a boolean, got ${describe(value)}`, key);
+                    continue;
+                }
+                break;
+            case 'object':
+                if (!isPlainObject(value)) {
+                    error(`"${key}" must be an object, got ${describe(value)}`, key);
+                    continue;
+                }
+                break;
+            case 'stringList': {
+                if (!Array.isArray(value)) {
+                    error(`"${key}" must be an array of strings, got ${describe(value)}`, key);
+                    continue;
+                }
+                const invalid = value.findIndex((entry) => typeof entry !== 'string' || entry.trim() === '');
+                if (invalid !== -1) {
+                    error(`"${key}" entry ${invalid} must be a non-empty string, got ${describe(value[invalid])}`, `${key}.${invalid}`);
+                }
+                config[key] = value.filter((entry) => typeof entry === 'string' && entry.trim() !== '');
+                continue;
+            }
+            case 'stringRecord': {
+                if (!isPlainObject(value)) {
+                    error(`"${key}" must be an object of version strings, got ${describe(value)}`, key);
+                    continue;
+                }
+                const entries: Record<string, string> = {};
+                for (const [name, entry] of Object.entries(value)) {
+                    if (typeof entry !== 'string' || entry.trim() === '') {
+                        error(`"${key}" entry "${name}" must be a non-empty version string, got ${describe(entry)}`, `${key}.${name}`);
+                    } else {
+                        entries[name] = entry;
+                    }
+                }
+                config[key] = entries;
+                continue;
+            }
+        }
+
+        config[key] = value;
+    }
+
+    return { config: config as ScaffoldConfig, issues };
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return `"${value}"`;
+    return typeof value;
+}
+
+/**
+ * Merge two configs; objects are merged recursively, arrays are concatenated
+ */
+function mergeConfig(base: ScaffoldConfig, override: ScaffoldConfig): ScaffoldConfig {
+    return mergeValues(base, override) as ScaffoldConfig;
+}
+
+function mergeValues(base: unknown, override: unknown): unknown {
+    if (Array.isArray(base) && Array.isArray(override)) {
+        return [...new Set([...base, ...override])];
+    }
+
+    if (isPlainObject(base) && isPlainObject(override)) {
+        const result: Record<string, unknown> = { ...base };
+        for (const [key, value] of Object.entries(override)) {
+            result[key] = key in base ? mergeValues(base[key], value) : value;
+        }
+        return result;
+    }
+
+    return override === undefined ? base : override;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Clear the config cache
+ */
+export function clearConfigCache(): void {
+    cache.clear();
+}
@@ -0,0 +1,44 @@
+/**
+ * Constants
+ * CLI version and runtime lists of the values allowed for enumerated config fields
+ */
+import type {
+    Framework,
+    PackageType,
+    PackageManager,
+    BuildSystem,
+    RuntimeTarget,
+    ModuleFormat,
+    StylingStrategy,
+} from '../types/index.js';
+import type { CIProvider } from '../types/presets.js';
+
+export const CLI_VERSION = '1.0.0-alpha.1';
+
+export const FRAMEWORKS: Framework[] = [
+    'react', 'vue', 'svelte', 'angular', 'solid', 'qwik', 'preact', 'lit', 'astro', 'node', 'deno', 'bun', 'vanilla',
+];
+export const PACKAGE_TYPES: PackageType[] = ['library', 'plugin', 'utility', 'cli', 'sdk', 'integration', 'adapter'];
+export const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+export const BUILD_SYSTEMS: BuildSystem[] = ['tsup', 'vite', 'rollup', 'unbuild', 'esbuild'];
+export const RUNTIME_TARGETS: RuntimeTarget[] = ['browser', 'node', 'edge', 'universal'];
+export const MODULE_FORMATS: ModuleFormat[] = ['esm', 'cjs', 'dual'];
+export const CI_PROVIDERS: CIProvider[] = ['github-actions', 'gitlab-ci', 'none'];
+export const STYLING_STRATEGIES: StylingStrategy[] = ['none', 'css', 'css-modules', 'tailwind', 'vanilla-extract'];
+
+/**
+ * Build systems that can bundle each styling strategy's styles into a stylesheet
+ * Tailwind builds its stylesheet with its own CLI, after any build
+ */
+export const STYLING_BUILD_SYSTEMS: Record<StylingStrategy, BuildSystem[]> = {
+    'none': BUILD_SYSTEMS,
+    'css': ['vite', 'tsup', 'rollup', 'esbuild'],
+    'css-modules': ['vite', 'tsup', 'rollup', 'esbuild'],
+    'tailwind': BUILD_SYSTEMS,
+    'vanilla-extract': ['vite', 'tsup', 'rollup'],
+};
+
+/**
+ * A subpath export: "./" and path segments, optionally ending in a "/*" wildcard
+ */
+export const SUBPATH_EXPORT_PATTERN = /^\.\/[\w-]+(\/[\w-]+)*(\/\*)?$/;
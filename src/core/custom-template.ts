@@ -0,0 +1,297 @@
+/**
+ * Custom Templates
+ * Loads a team's own template directory, or a git repository holding one, for create --template
+ * The descriptor maps its .hbs files to output paths; the generator still supplies
+ * dependencies, exports, package.json and validation
+ */
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execa } from 'execa';
+import type {
+    CustomTemplate,
+    GeneratedFile,
+    GeneratorConfig,
+    TemplateCondition,
+    TemplateDescriptor,
+    TemplateFileEntry,
+    ValidationIssue,
+} from '../types/index.js';
+import { templateEngine } from './template-engine.js';
+import { logger } from './logger.js';
+
+/**
+ * Descriptor file name, at the root of a template directory
+ */
+export const TEMPLATE_DESCRIPTOR_FILE = 'scaffold.template.json';
+
+/**
+ * Entries never treated as template files when the descriptor doesn't list any
+ */
+const IGNORED_ENTRIES = new Set(['.git', 'node_modules', TEMPLATE_DESCRIPTOR_FILE]);
+
+/**
+ * Load a custom template from a local directory or a git URL
+ * Git sources are cloned into a cache and refreshed on every load; "#ref" picks a branch or tag
+ */
+export async function loadCustomTemplate(
+    source: string,
+    cwd: string = process.cwd()
+): Promise<{ template: CustomTemplate | null; issues: ValidationIssue[] }> {
+    const fail = (message: string, suggestion?: string) => ({
+        template: null,
+        issues: [{ severity: 'error' as const, category: 'template', message, file: source, suggestion }],
+    });
+
+    let dir: string;
+    if (isGitSource(source)) {
+        try {
+            dir = await fetchGitTemplate(source);
+        } catch (error) {
+            return fail(`Failed to clone template: ${describeGitError(error)}`);
+        }
+    } else {
+        dir = path.resolve(cwd, source);
+        if (!await fs.pathExists(dir) || !(await fs.stat(dir)).isDirectory()) {
+            return fail('Template directory does not exist');
+        }
+    }
+
+    const descriptorPath = path.join(dir, TEMPLATE_DESCRIPTOR_FILE);
+    if (!await fs.pathExists(descriptorPath)) {
+        return fail(`Template has no ${TEMPLATE_DESCRIPTOR_FILE}`, 'Add a descriptor with at least a "name"');
+    }
+
+    let raw: unknown;
+    try {
+        raw = await fs.readJson(descriptorPath);
+    } catch (error) {
+        return fail(`Invalid ${TEMPLATE_DESCRIPTOR_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const issues = await validateTemplateDescriptor(raw, dir, descriptorPath);
+    if (issues.some((i) => i.severity === 'error')) {
+        return { template: null, issues };
+    }
+
+    const descriptor = raw as TemplateDescriptor;
+    if (!descriptor.files) {
+        descriptor.files = await discoverTemplateFiles(dir);
+    }
+
+    return { template: { source: isGitSource(source) ? source : dir, dir, descriptor }, issues };
+}
+
+/**
+ * Get the files a custom template generates
+ */
+export function getTemplateFiles(template: CustomTemplate): GeneratedFile[] {
+    return (template.descriptor.files || []).map((entry) => ({
+        path: entry.path,
+        template: entry.template,
+        isTemplate: !entry.copy,
+        copy: entry.copy,
+        condition: entry.when === undefined ? undefined : (config) => matchesCondition(entry.when!, config),
+    }));
+}
+
+/**
+ * Check whether a generator config satisfies a descriptor condition
+ */
+export function matchesCondition(condition: TemplateCondition, config: GeneratorConfig): boolean {
+    const values: Record<string, unknown> = { ...config };
+
+    if (typeof condition === 'string') {
+        return condition.startsWith('!') ? !values[condition.slice(1)] : Boolean(values[condition]);
+    }
+
+    return Object.entries(condition).every(([key, expected]) =>
+        Array.isArray(expected) ? expected.includes(values[key] as string | boolean) : values[key] === expected
+    );
+}
+
+/**
+ * Check whether a template source is a git repository URL rather than a directory
+ */
+export function isGitSource(source: string): boolean {
+    return /^(file|https?|ssh|git):\/\//.test(source)
+        || /^git@/.test(source)
+        || /\.git(#.*)?$/.test(source);
+}
+
+/**
+ * Validate a template descriptor, including that every listed template exists
+ */
+async function validateTemplateDescriptor(raw: unknown, dir: string, file: string): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const error = (message: string, jsonPath?: string) => {
+        issues.push({ severity: 'error', category: 'template', message, file, jsonPath });
+    };
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        error('Template descriptor must be a JSON object');
+        return issues;
+    }
+
+    const descriptor = raw as Record<string, unknown>;
+
+    if (typeof descriptor.name !== 'string' || descriptor.name === '') {
+        error('"name" must be a non-empty string', 'name');
+    }
+
+    for (const key of ['description', 'framework'] as const) {
+        if (descriptor[key] !== undefined && typeof descriptor[key] !== 'string') {
+            error(`"${key}" must be a string`, key);
+        }
+    }
+
+    if (descriptor.files === undefined) {
+        return issues;
+    }
+
+    if (!Array.isArray(descriptor.files)) {
+        error('"files" must be an array of { path, template } objects', 'files');
+        return issues;
+    }
+
+    for (const [index, entry] of (descriptor.files as Partial<TemplateFileEntry>[]).entries()) {
+        const jsonPath = `files[${index}]`;
+
+        if (typeof entry?.path !== 'string' || typeof entry?.template !== 'string') {
+            error('File entries need string "path" and "template" fields', jsonPath);
+            continue;
+        }
+
+        if (path.isAbsolute(entry.path) || entry.path.split(/[\\/]/).includes('..')) {
+            error(`Output path "${entry.path}" must stay inside the package`, `${jsonPath}.path`);
+        }
+
+        if (entry.when !== undefined && !isValidCondition(entry.when)) {
+            error('"when" must be a config key or an object of config keys and allowed values', `${jsonPath}.when`);
+        }
+
+        // Templates are read only from the template directory
+        if (path.isAbsolute(entry.template) || !isInside(dir, path.resolve(dir, entry.template))) {
+            error(`Template "${entry.template}" must stay inside the template directory`, `${jsonPath}.template`);
+            continue;
+        }
+
+        let sources: string[];
+        if (entry.copy !== undefined && typeof entry.copy !== 'boolean') {
+            error('"copy" must be a boolean', `${jsonPath}.copy`);
+            continue;
+        } else if (entry.copy) {
+            sources = [...(await templateEngine.resolveAssets(entry.template, [dir])).values()];
+            if (sources.length === 0) {
+                error(`No file matches "${entry.template}"`, `${jsonPath}.template`);
+            }
+        } else {
+            const resolved = await templateEngine.resolveTemplate(entry.template, [dir]);
+            sources = resolved ? [resolved] : [];
+            if (!resolved) {
+                error(`Template "${entry.template}" not found`, `${jsonPath}.template`);
+            }
+        }
+
+        for (const source of sources) {
+            if (isInside(dir, source) && !await isInsideTemplate(dir, source)) {
+                error(`Template "${entry.template}" links to a file outside the template directory`, `${jsonPath}.template`);
+                break;
+            }
+        }
+    }
+
+    return issues;
+}
+
+function isValidCondition(condition: unknown): boolean {
+    if (typeof condition === 'string') {
+        return condition.replace(/^!/, '') !== '';
+    }
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+        return false;
+    }
+    const isValue = (value: unknown) => typeof value === 'string' || typeof value === 'boolean';
+    return Object.values(condition).every((value) => Array.isArray(value) ? value.every(isValue) : isValue(value));
+}
+
+/**
+ * Check whether a path is inside a directory, without following symlinks
+ */
+function isInside(dir: string, target: string): boolean {
+    const relative = path.relative(dir, target);
+    return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+/**
+ * Check whether a file in a template directory really is inside it, and not a symlink out of it
+ */
+async function isInsideTemplate(dir: string, file: string): Promise<boolean> {
+    return isInside(await fs.realpath(dir), await fs.realpath(file));
+}
+
+/**
+ * Map every .hbs file in a template directory to its output path
+ * The extension is dropped and a leading "_" becomes "." (_gitignore.hbs → .gitignore),
+ * so dotfiles survive being published to npm
+ */
+async function discoverTemplateFiles(dir: string, relative = ''): Promise<TemplateFileEntry[]> {
+    const entries: TemplateFileEntry[] = [];
+
+    for (const name of (await fs.readdir(path.join(dir, relative))).sort()) {
+        if (IGNORED_ENTRIES.has(name)) {
+            continue;
+        }
+
+        const templatePath = relative ? `${relative}/${name}` : name;
+        if (!await isInsideTemplate(dir, path.join(dir, templatePath))) {
+            logger.warn(`Skipping ${templatePath}: it links to a file outside the template directory`);
+        } else if ((await fs.stat(path.join(dir, templatePath))).isDirectory()) {
+            entries.push(...await discoverTemplateFiles(dir, templatePath));
+        } else if (name.endsWith('.hbs')) {
+            const outputName = name.slice(0, -'.hbs'.length).replace(/^_/, '.');
+            entries.push({ path: relative ? `${relative}/${outputName}` : outputName, template: templatePath });
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Clone or refresh a git template in the cache, returning its directory
+ * A cached copy is used as is when the repository can't be reached
+ */
+async function fetchGitTemplate(source: string): Promise<string> {
+    const [url, ref] = source.split('#');
+    const cacheRoot = path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'scaffold-kit', 'templates');
+    const dir = path.join(cacheRoot, crypto.createHash('sha256').update(source).digest('hex').slice(0, 16));
+
+    if (await fs.pathExists(path.join(dir, '.git'))) {
+        try {
+            await execa('git', ['fetch', '--depth', '1', 'origin', ref || 'HEAD'], { cwd: dir });
+            await execa('git', ['reset', '--hard', 'FETCH_HEAD'], { cwd: dir });
+        } catch (error) {
+            logger.warn(`Could not refresh template ${source}, using the cached copy`);
+            logger.debug(error instanceof Error ? error.message : String(error));
+        }
+        return dir;
+    }
+
+    await fs.ensureDir(cacheRoot);
+    await fs.remove(dir);
+    await execa('git', ['clone', '--depth', '1', ...(ref ? ['--branch', ref] : []), url, dir]);
+    return dir;
+}
+
+/**
+ * Reduce a failed git command to git's own error line
+ */
+function describeGitError(error: unknown): string {
+    const stderr = (error as { stderr?: string } | null)?.stderr;
+    const fatal = stderr?.split('\n').find((line) => line.startsWith('fatal:'));
+    if (fatal) {
+        return fatal.slice('fatal:'.length).trim();
+    }
+    return error instanceof Error ? error.message : String(error);
+}
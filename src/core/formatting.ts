@@ -0,0 +1,124 @@
+/**
+ * Formatting
+ * Formats generated files with Prettier, in the style of the package they're written into:
+ * its Prettier config (or .editorconfig), the formatting section of scaffold config,
+ * or scaffold-kit's default style
+ */
+import path from 'path';
+import prettier from 'prettier';
+import type { FormattingOptions, GeneratorConfig } from '../types/index.js';
+import { loadScaffoldConfig } from './config.js';
+import { logger } from './logger.js';
+
+/**
+ * Style used when neither a Prettier config nor scaffold config says otherwise
+ */
+export const DEFAULT_FORMATTING: FormattingOptions = {
+    semi: true,
+    singleQuote: true,
+    trailingComma: 'es5',
+    tabWidth: 2,
+    printWidth: 100,
+};
+
+/**
+ * Prettier's own defaults, for options a config leaves out
+ */
+const PRETTIER_DEFAULTS: Required<FormattingOptions> = {
+    semi: true,
+    singleQuote: false,
+    trailingComma: 'all',
+    tabWidth: 2,
+    useTabs: false,
+    printWidth: 80,
+    bracketSpacing: true,
+    arrowParens: 'always',
+    endOfLine: 'lf',
+};
+
+/**
+ * Prettier parser for each formatted extension, or file name
+ */
+const PARSERS: Record<string, string> = {
+    '.ts': 'typescript',
+    '.tsx': 'typescript',
+    '.js': 'babel',
+    '.jsx': 'babel',
+    '.mjs': 'babel',
+    '.cjs': 'babel',
+    '.json': 'json',
+    '.md': 'markdown',
+    '.html': 'html',
+    '.css': 'css',
+    '.scss': 'css',
+    '.yaml': 'yaml',
+    '.yml': 'yaml',
+    '.prettierrc': 'json',
+};
+
+/**
+ * Work out the formatting for files written into a directory
+ * A Prettier config file in the directory or an ancestor replaces the default style, an .editorconfig
+ * adjusts it, and the scaffold config's "formatting" section overrides both
+ * The directory doesn't have to exist yet
+ */
+export async function resolveFormatting(
+    dir: string,
+    fallback: FormattingOptions = DEFAULT_FORMATTING
+): Promise<FormattingOptions> {
+    // Prettier searches from the directory of the file it's given
+    const probe = path.join(path.resolve(dir), 'index.ts');
+    const configFile = await prettier.resolveConfigFile(probe);
+    const resolved = await prettier.resolveConfig(probe, { editorconfig: true });
+    const { config } = await loadScaffoldConfig(dir);
+
+    return {
+        ...(configFile ? {} : fallback),
+        ...pickFormattingOptions(resolved || {}),
+        ...config.formatting,
+    };
+}
+
+/**
+ * Get every formatting option for a config, with Prettier's defaults filled in
+ */
+export function getFormattingOptions(config: Pick<GeneratorConfig, 'formatting'>): Required<FormattingOptions> {
+    return { ...PRETTIER_DEFAULTS, ...(config.formatting ?? DEFAULT_FORMATTING) };
+}
+
+/**
+ * Format content with Prettier, by file extension
+ * Files Prettier doesn't handle, or can't parse, are returned as they are
+ */
+export async function formatContent(
+    content: string,
+    filepath: string,
+    formatting: FormattingOptions = DEFAULT_FORMATTING
+): Promise<string> {
+    const parser = PARSERS[path.extname(filepath)] ?? PARSERS[path.basename(filepath)];
+    if (!parser) {
+        return content;
+    }
+
+    try {
+        return await prettier.format(content, { ...formatting, parser });
+    } catch (error) {
+        logger.warn(`Failed to format ${filepath}: ${error instanceof Error ? error.message : String(error)}`);
+        return content;
+    }
+}
+
+/**
+ * Keep only the options scaffold-kit passes on, dropping plugins, overrides and the like
+ */
+function pickFormattingOptions(options: Record<string, unknown>): FormattingOptions {
+    const picked: Record<string, unknown> = {};
+
+    for (const key of Object.keys(PRETTIER_DEFAULTS)) {
+        if (options[key] !== undefined) {
+            picked[key] = options[key];
+        }
+    }
+
+    return picked as FormattingOptions;
+}
@@ -11,65 +11,63 @@ import type {
     GeneratorResult,
     TemplateContext,
     DependencySpec,
+    ExportConfig,
+    BuildEntry,
     Framework,
+    GeneratedFile,
+    RenderedFile,
+    HookContext,
+    CustomTemplate,
 } from '../types/index.js';
-import prettier from 'prettier';
 import { registry } from './registry.js';
 import { templateEngine } from './template-engine.js';
 import { logger } from './logger.js';
+import { FileTransaction } from './transaction.js';
+import { compareWithDirectory } from './preview.js';
+import { getNextSteps, getRunCommand } from './post-generate.js';
+import { createManifest, renderManifest, renderBase } from './manifest.js';
+import { hookBus, createHookRunner, type HookRunner } from './hooks.js';
+import { getTemplateFiles } from './custom-template.js';
+import { getOverrideLayers } from './template-layers.js';
+import { formatContent, getFormattingOptions } from './formatting.js';
+import { CLI_VERSION } from './constants.js';
+import { getPreset } from '../presets/index.js';
 
 /**
- * Format content string using Prettier
+ * Options for package generation
  */
-async function formatContent(content: string, filepath: string): Promise<string> {
-    try {
-        const ext = path.extname(filepath);
-        let parser = 'babel';
-
-        switch (ext) {
-            case '.ts':
-            case '.tsx':
-                parser = 'typescript';
-                break;
-            case '.js':
-            case '.jsx':
-            case '.mjs':
-            case '.cjs':
-                parser = 'babel';
-                break;
-            case '.json':
-                parser = 'json';
-                break;
-            case '.md':
-                parser = 'markdown';
-                break;
-            case '.html':
-                parser = 'html';
-                break;
-            case '.css':
-            case '.scss':
-                parser = 'css';
-                break;
-            case '.yaml':
-            case '.yml':
-                parser = 'yaml';
-                break;
-            default:
-                return content;
-        }
+export interface GenerateOptions {
+    /** Render everything into memory without writing to disk */
+    dryRun?: boolean;
 
-        return await prettier.format(content, {
-            parser,
-            semi: true,
-            singleQuote: true,
-            trailingComma: 'es5',
-            tabWidth: 2,
-            printWidth: 100,
-        });
-    } catch (error) {
-        logger.warn(`Failed to format ${filepath}: ${error instanceof Error ? error.message : String(error)}`);
-        return content;
-    }
+    /**
+     * How to treat files that already exist in the output directory
+     * overwrite: replace them (default); merge: keep them and only add new files
+     */
+    existing?: 'overwrite' | 'merge';
+
+    /** Use this generator instead of the framework's primary one */
+    generatorId?: string;
+
+    /** Generate the custom template's files instead of the generator's */
+    template?: CustomTemplate;
+}
+
+/**
+ * A package rendered in memory, waiting to be written
+ */
+export interface PreparedPackage {
+    /** Result of the generation so far */
+    result: GeneratorResult;
+
+    /** Files to write, relative to the package directory */
+    files: RenderedFile[];
+
+    /** Run the post-generation steps once the files are written */
+    finish(): Promise<GeneratorResult>;
+
+    /** Report that writing the files failed */
+    fail(error: Error): Promise<GeneratorResult>;
 }
 
 /**
@@ -77,26 +75,90 @@ async function formatContent(content: string, filepath: string): Promise<string>
  */
 export async function generatePackage(
     framework: Framework,
-    config: GeneratorConfig
+    config: GeneratorConfig,
+    options: GenerateOptions = {}
 ): Promise<GeneratorResult> {
+    const prepared = await preparePackage(framework, config, options);
+    if (!('finish' in prepared)) {
+        return prepared;
+    }
+
+    // Dry run: hand back the rendered files without touching the disk
+    if (options.dryRun) {
+        return prepared.result;
+    }
+
+    // Write files through a staging directory so failures never leave a partial package
+    const spinner = ora();
+    try {
+        spinner.start('Writing files...');
+        await writeTransactionally(prepared.files, config.outDir, spinner);
+        spinner.succeed(`Wrote ${prepared.files.length} files to ${config.outDir}`);
+    } catch (error) {
+        spinner.fail('Generation failed');
+        return prepared.fail(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    return prepared.finish();
+}
+
+/**
+ * Validate and render a package into memory, without writing anything
+ * Returns the failed result when validation or rendering fails
+ */
+export async function preparePackage(
+    framework: Framework,
+    config: GeneratorConfig,
+    options: GenerateOptions = {}
+): Promise<PreparedPackage | GeneratorResult> {
     const spinner = ora();
     const files: string[] = [];
     const warnings: string[] = [];
+    let hooks: HookRunner | undefined;
+    let hookContext: HookContext | undefined;
 
     try {
         // Get generator for the framework
-        const generator = registry.getPrimary(framework);
+        const generator = options.generatorId
+            ? registry.get(options.generatorId)
+            : registry.getPrimary(framework);
 
         if (!generator) {
             return {
                 success: false,
                 files: [],
                 warnings: [],
-                error: `No generator found for framework: ${framework}`,
+                error: options.generatorId
+                    ? `No generator found with id: ${options.generatorId}`
+                    : `No generator found for framework: ${framework}`,
                 nextSteps: [],
             };
         }
 
+        // Hooks from the generator, the preset, then plugins
+        hooks = createHookRunner([
+            generator.hooks,
+            ...(config.preset ? getPreset(config.preset)?.hooks || [] : []),
+            ...hookBus.getSubscribers().map((s) => s.hooks),
+        ]);
+
+        // Files emitted by hooks are added once rendering is done
+        const emitted: RenderedFile[] = [];
+        let acceptingFiles = true;
+        hookContext = {
+            config,
+            generator,
+            emitFile(filePath, content) {
+                if (!acceptingFiles) {
+                    logger.warn(`Ignoring ${filePath}: hooks can only emit files before package.json is built`);
+                    return;
+                }
+                emitted.push({ path: filePath, content });
+            },
+        };
+
+        await hooks.beforeValidate(hookContext);
+
         // Validate configuration
         spinner.start('Validating configuration...');
         const validation = generator.validate(config);
@@ -106,6 +168,7 @@ export async function generatePackage(
             const errorMessages = validation.issues
                 .filter((i) => i.severity === 'error')
                 .map((i) => i.message);
+            await hooks.onError(new Error(errorMessages.join('\n')), hookContext);
             return {
                 success: false,
                 files: [],
@@ -122,101 +185,194 @@ export async function generatePackage(
 
         spinner.succeed('Configuration valid');
 
-        // Create output directory
-        spinner.start('Creating project directory...');
-        await fs.ensureDir(config.outDir);
-        spinner.succeed(`Created ${config.outDir}`);
-
         // Build template context
         const context = buildTemplateContext(config, generator);
+        // Search path: the custom template, configured overrides, the generator's own templates, built-in
+        const templateRoots = [
+            ...(options.template ? [options.template.dir] : []),
+            ...(await getOverrideLayers()).map((layer) => layer.root),
+            ...registry.getTemplateRoots(generator.meta.id),
+        ];
+
+        // Get files to generate, including any extra files contributed by a preset
+        const filesToGenerate: GeneratedFile[] = [
+            ...(options.template ? getTemplateFiles(options.template) : generator.getFiles(config)),
+            ...(config.additionalFiles || []).map((f) => ({ path: f.path, template: f.template, isTemplate: true })),
+        ];
+
+        // Render each file into memory
+        spinner.start('Rendering files...');
+        const rendered: RenderedFile[] = [];
+
+        for (const original of filesToGenerate) {
+            // Check condition if specified
+            if (original.condition && !original.condition(config)) {
+                continue;
+            }
 
-        // Get files to generate
-        const filesToGenerate = generator.getFiles(config);
-
-        // Generate each file
-        spinner.start('Generating files...');
+            const file = await hooks.beforeRender(original, hookContext);
+            if (!file) {
+                logger.debug(`Skipped by hook: ${original.path}`);
+                continue;
+            }
 
-        for (const file of filesToGenerate) {
-            // Check condition if specified
-            if (file.condition && !file.condition(config)) {
+            // Assets are copied byte for byte, skipping Handlebars, Prettier and afterRender hooks
+            if (file.copy) {
+                const assets = await templateEngine.resolveAssets(file.template, templateRoots);
+                if (assets.size === 0) {
+                    throw new Error(`Failed to copy ${file.path}: no asset matches ${file.template}`);
+                }
+                for (const [relative, source] of assets) {
+                    const assetPath = path.posix.join(file.path, relative);
+                    const content = (await fs.readFile(source)).toString('base64');
+                    rendered.push({ path: assetPath, content, encoding: 'base64', mode: file.mode });
+                    files.push(assetPath);
+                    logger.debug(`Copied: ${assetPath}`);
+                }
                 continue;
             }
 
             const filePath = path.join(config.outDir, file.path);
-            await fs.ensureDir(path.dirname(filePath));
-
             let content: string;
 
-            if (file.isTemplate) {
-                // Log templates root for debugging
-                logger.debug(`Templates root: ${templateEngine.getTemplatesRoot()}`);
+            try {
+                if (file.isTemplate) {
+                    // Log templates root for debugging
+                    logger.debug(`Templates root: ${templateEngine.getTemplatesRoot()}`);
+
+                    try {
+                        content = await templateEngine.render(file.template, context, templateRoots);
+                    } catch (error) {
+                        // Errors inside a template that was found are reported as they are
+                        if (!(error instanceof Error && error.message.startsWith('Template not found'))) {
+                            throw error;
+                        }
 
-                try {
-                    content = await templateEngine.render(file.template, context);
-                } catch (error) {
-                    // If template not found, try alternate paths
-                    const alternatePaths = [
-                        `${framework}/${file.template.replace(`${framework}/`, '').replace('common/', '')}`,
-                        file.template.replace(`${framework}/`, ''),
-                    ];
-
-                    let found = false;
-                    for (const altPath of alternatePaths) {
-                        try {
-                            content = await templateEngine.render(altPath, context);
-                            found = true;
-                            break;
-                        } catch {
-                            // Continue trying
+                        // If template not found, try alternate paths
+                        const alternatePaths = [
+                            `${framework}/${file.template.replace(`${framework}/`, '').replace('common/', '')}`,
+                            file.template.replace(`${framework}/`, ''),
+                        ];
+
+                        let found = false;
+                        for (const altPath of alternatePaths) {
+                            try {
+                                content = await templateEngine.render(altPath, context, templateRoots);
+                                found = true;
+                                break;
+                            } catch {
+                                // Continue trying
+                            }
                         }
-                    }
 
-                    if (!found) {
-                        // Log error with details
-                        logger.warn(`Template not found: ${file.template}, tried: ${alternatePaths.join(', ')}`);
-                        logger.warn(`Templates root: ${templateEngine.getTemplatesRoot()}`);
-                        throw new Error(`Template not found: ${file.template}`);
+                        if (!found) {
+                            // Log error with details
+                            logger.warn(`Template not found: ${file.template}, tried: ${alternatePaths.join(', ')}`);
+                            logger.warn(`Templates root: ${templateEngine.getTemplatesRoot()}`);
+                            throw new Error(`Template not found: ${file.template}`);
+                        }
                     }
+                } else {
+                    content = file.template;
                 }
-            } else {
-                content = file.template;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to render ${file.path}: ${message}`);
             }
 
             // Format content with Prettier
-            const formattedContent = await formatContent(content!, filePath);
-            await fs.writeFile(filePath, formattedContent, 'utf-8');
+            const formattedContent = await formatContent(content!, filePath, context.formatting);
+            const finalContent = await hooks.afterRender({ path: file.path, content: formattedContent }, hookContext);
+            rendered.push({ path: file.path, content: finalContent, mode: file.mode });
             files.push(file.path);
-            logger.debug(`Generated: ${file.path}`);
+            logger.debug(`Rendered: ${file.path}`);
         }
 
-        spinner.succeed(`Generated ${files.length} files`);
+        // Files added by hooks replace any rendered file at the same path
+        for (const file of emitted) {
+            const content = await formatContent(file.content, path.join(config.outDir, file.path), context.formatting);
+            const index = rendered.findIndex((r) => r.path === file.path);
+            if (index === -1) {
+                rendered.push({ path: file.path, content });
+                files.push(file.path);
+            } else {
+                rendered[index] = { path: file.path, content, mode: rendered[index].mode };
+            }
+            logger.debug(`Emitted by hook: ${file.path}`);
+        }
+        acceptingFiles = false;
 
-        // Create package.json with dependencies
-        spinner.start('Setting up package.json...');
-        await generatePackageJson(generator, config, context);
-        spinner.succeed('Created package.json');
+        // Build package.json with dependencies
+        const packageJson = await hooks.beforePackageJson(buildPackageJson(generator, config), hookContext);
+        rendered.push({ path: 'package.json', content: JSON.stringify(packageJson, null, 2) + '\n' });
+
+        // Record how the package was generated, and what was generated
+        const manifest = createManifest(generator, config, rendered, options.template?.source);
+        const scaffoldFiles = [renderManifest(manifest), renderBase(rendered)];
+
+        spinner.succeed(`Rendered ${rendered.length} files`);
 
-        // Run post-generation hooks
         const result: GeneratorResult = {
             success: true,
             files,
             warnings,
-            nextSteps: generateNextSteps(config),
+            nextSteps: getNextSteps(config),
         };
 
-        if (generator.postGenerate) {
-            spinner.start('Running post-generation hooks...');
-            await generator.postGenerate(config, result);
-            spinner.succeed('Post-generation complete');
+        // A dry run hands back the rendered files instead of writing them
+        if (options.dryRun) {
+            result.rendered = [...rendered, ...scaffoldFiles];
+        }
+
+        // Merge: keep every existing file, only add files that don't exist yet
+        // The manifest and base are always replaced, they describe this generation
+        let toWrite = [...rendered, ...scaffoldFiles];
+        if (options.existing === 'merge' && !options.dryRun) {
+            const comparisons = await compareWithDirectory(rendered, config.outDir);
+            toWrite = [...comparisons.filter((c) => c.status === 'added').map((c) => c.file), ...scaffoldFiles];
+            result.files = files.filter((f) => toWrite.some((w) => w.path === f));
+            result.conflicts = comparisons
+                .filter((c) => c.status === 'changed')
+                .map((c) => ({ path: c.file.path, existing: c.existing!, generated: c.file.content, encoding: c.file.encoding }));
         }
 
-        return result;
+        const runHooks = hooks;
+        const runContext = hookContext;
+        return {
+            result,
+            files: toWrite,
+
+            // The package is written, so failures from here on are warnings rather than a failed generation
+            async finish() {
+                try {
+                    if (generator.postGenerate) {
+                        spinner.start('Running post-generation hooks...');
+                        await generator.postGenerate(config, result);
+                        spinner.succeed('Post-generation complete');
+                    }
+
+                    await runHooks.afterWrite(result, runContext);
+                } catch (error) {
+                    spinner.fail('Post-generation hooks failed');
+                    warnings.push(`All files were written, but a post-generation hook failed: ${error instanceof Error ? error.message : String(error)}`);
+                }
+                return result;
+            },
+
+            async fail(error) {
+                await runHooks.onError(error, runContext);
+                return { success: false, files: [], warnings, error: error.message, nextSteps: [] };
+            },
+        };
 
     } catch (error) {
         spinner.fail('Generation failed');
+        if (hooks && hookContext) {
+            await hooks.onError(error instanceof Error ? error : new Error(String(error)), hookContext);
+        }
         return {
             success: false,
-            files,
+            files: [],
             warnings,
             error: error instanceof Error ? error.message : String(error),
             nextSteps: [],
@@ -224,33 +380,78 @@ export async function generatePackage(
     }
 }
 
+/**
+ * Write rendered files via a file transaction
+ * Rolls back on failure, and on Ctrl+C while writing
+ */
+export async function writeTransactionally(
+    rendered: RenderedFile[],
+    outDir: string,
+    spinner: ReturnType<typeof ora>
+): Promise<void> {
+    const transaction = new FileTransaction(outDir, {
+        onInterrupt: () => spinner.fail('Generation interrupted - no files were written'),
+    });
+
+    try {
+        await transaction.stage(rendered);
+        await transaction.commit();
+    } catch (error) {
+        transaction.rollback();
+        throw error;
+    } finally {
+        transaction.dispose();
+    }
+}
+
 /**
  * Build template context from config
  */
-function buildTemplateContext(
+export function buildTemplateContext(
     config: GeneratorConfig,
     generator: Generator
 ): TemplateContext {
     const deps = generator.getDependencies(config);
     const exports = generator.getExports(config);
     const extras = generator.getPackageJsonExtras(config);
+    const entries = getBuildEntries(exports);
 
     return {
         ...config,
         year: new Date().getFullYear(),
         date: new Date().toISOString().split('T')[0],
-        cliVersion: '1.0.0-alpha.1', // TODO: Get from package.json
-        dependencies: groupDependencies(deps, 'dependency'),
-        devDependencies: groupDependencies(deps, 'devDependency'),
+        cliVersion: CLI_VERSION,
+        dependencies: { ...groupDependencies(deps, 'dependency'), ...config.workspace?.dependencies },
+        devDependencies: { ...groupDependencies(deps, 'devDependency'), ...config.additionalDevDeps },
         peerDependencies: groupDependencies(deps, 'peerDependency'),
         optionalDependencies: groupDependencies(deps, 'optionalDependency'),
         exports,
+        entries,
+        multipleEntries: entries.length > 1,
+        wildcardEntries: entries.some((e) => e.dir !== undefined),
+        styling: config.styling ?? 'none',
+        bundledStyles: config.styling !== undefined && config.styling !== 'none' && config.styling !== 'tailwind',
         ...extras,
+        formatting: getFormattingOptions(config),
         framework: generator.meta.framework,
         generatorId: generator.meta.id,
     };
 }
 
+/**
+ * Get the build config's entry points from the exports' sources
+ */
+function getBuildEntries(exports: ExportConfig[]): BuildEntry[] {
+    return exports
+        .filter((e) => e.source && e.import)
+        .map((e) => {
+            const name = e.import!.replace(/^\.\/dist\//, '').replace(/\.js$/, '');
+            return name.endsWith('/*')
+                ? { name: name.slice(0, -2), source: e.source!, dir: path.posix.dirname(e.source!) }
+                : { name, source: e.source!, dir: undefined };
+        });
+}
+
 /**
  * Group dependencies by type
  */
@@ -270,13 +471,12 @@ function groupDependencies(
 }
 
 /**
- * Generate package.json
+ * Build package.json contents
  */
-async function generatePackageJson(
+function buildPackageJson(
     generator: Generator,
-    config: GeneratorConfig,
-    context: TemplateContext
-): Promise<void> {
+    config: GeneratorConfig
+): Record<string, unknown> {
     const deps = generator.getDependencies(config);
     const exports = generator.getExports(config);
     const extras = generator.getPackageJsonExtras(config);
@@ -285,7 +485,10 @@ async function generatePackageJson(
     const exportsField: Record<string, unknown> = {};
 
     for (const exp of exports) {
-        if (config.moduleFormat === 'dual' && exp.require) {
+        // Assets such as the stylesheet have a single file for every condition
+        if (!exp.import) {
+            exportsField[exp.path] = exp.default;
+        } else if (config.moduleFormat === 'dual' && exp.require) {
             exportsField[exp.path] = {
                 types: exp.types,
                 import: exp.import,
@@ -303,17 +506,23 @@ async function generatePackageJson(
 
     // Base scripts
     const baseScripts: Record<string, string> = {
-        build: getBuildScript(config.buildSystem),
-        dev: getDevScript(config.buildSystem),
+        build: getBuildScript(config.buildSystem, exports),
+        dev: getDevScript(config.buildSystem, exports),
         test: 'vitest',
         'test:coverage': 'vitest --coverage',
         typecheck: 'tsc --noEmit',
         prepublishOnly: 'npm run build',
     };
 
-    // Merge with extra scripts from generator
+    // Merge with extra scripts from generator and preset
     const extraScripts = (extras.scripts as Record<string, string>) || {};
-    const mergedScripts = { ...baseScripts, ...extraScripts };
+    const mergedScripts = { ...baseScripts, ...extraScripts, ...config.additionalScripts };
+
+    // The Tailwind CLI builds the stylesheet from the classes used in the sources
+    if (config.styling === 'tailwind') {
+        mergedScripts['build:css'] ??= 'tailwindcss -i ./src/styles.css -o ./dist/styles.css --minify';
+        mergedScripts.build = `${mergedScripts.build} && ${getRunCommand(config.packageManager, 'build:css')}`;
+    }
 
     // Remove scripts from extras to avoid overwriting
     const { scripts: _, ...restExtras } = extras;
@@ -345,8 +554,9 @@ async function generatePackageJson(
     }
 
     // Add dependencies
-    const dependencies = groupDependencies(deps, 'dependency');
-    const devDependencies = groupDependencies(deps, 'devDependency');
+    // Workspace packages it depends on are linked by the package manager
+    const dependencies = { ...groupDependencies(deps, 'dependency'), ...config.workspace?.dependencies };
+    const devDependencies = { ...groupDependencies(deps, 'devDependency'), ...config.additionalDevDeps };
     const peerDependencies = groupDependencies(deps, 'peerDependency');
     const optionalDependencies = groupDependencies(deps, 'optionalDependency');
 
@@ -366,15 +576,13 @@ async function generatePackageJson(
         packageJson.optionalDependencies = optionalDependencies;
     }
 
-    // Write package.json
-    const packageJsonPath = path.join(config.outDir, 'package.json');
-    await fs.writeJson(packageJsonPath, packageJson, { spaces: 2 });
+    return packageJson;
 }
 
 /**
  * Get build script based on build system
  */
-function getBuildScript(buildSystem: string): string {
+function getBuildScript(buildSystem: string, exports: ExportConfig[]): string {
     switch (buildSystem) {
         case 'tsup':
             return 'tsup';
@@ -385,7 +593,7 @@ function getBuildScript(buildSystem: string): string {
         case 'unbuild':
             return 'unbuild';
         case 'esbuild':
-            return 'esbuild src/index.ts --bundle --outdir=dist --format=esm';
+            return getEsbuildCommand(exports);
         default:
             return 'tsc';
     }
@@ -394,7 +602,7 @@ function getBuildScript(buildSystem: string): string {
 /**
  * Get dev script based on build system
  */
-function getDevScript(buildSystem: string): string {
+function getDevScript(buildSystem: string, exports: ExportConfig[]): string {
     switch (buildSystem) {
         case 'tsup':
             return 'tsup --watch';
@@ -405,39 +613,22 @@ function getDevScript(buildSystem: string): string {
         case 'unbuild':
             return 'unbuild --watch';
         case 'esbuild':
-            return 'esbuild src/index.ts --bundle --outdir=dist --format=esm --watch';
+            return `${getEsbuildCommand(exports)} --watch`;
         default:
             return 'tsc --watch';
     }
 }
 
 /**
- * Generate next steps for the user
+ * Get the esbuild command building every entry point
+ * With several, --outbase keeps their paths under dist; esbuild expands wildcard patterns itself
  */
-function generateNextSteps(config: GeneratorConfig): string[] {
-    const steps: string[] = [];
-    const dirName = path.basename(config.outDir);
-
-    steps.push(`cd ${dirName}`);
-
-    switch (config.packageManager) {
-        case 'pnpm':
-            steps.push('pnpm install');
-            break;
-        case 'yarn':
-            steps.push('yarn');
-            break;
-        case 'bun':
-            steps.push('bun install');
-            break;
-        default:
-            steps.push('npm install');
-    }
-
-    steps.push('npm run build');
-    steps.push('npm run test');
+function getEsbuildCommand(exports: ExportConfig[]): string {
+    const entries = getBuildEntries(exports);
+    const sources = entries.map((e) => (e.dir ? `'${e.source}'` : e.source)).join(' ');
+    const outbase = entries.length > 1 ? ` --outbase=${path.posix.dirname(entries[0].source)}` : '';
 
-    return steps;
+    return `esbuild ${sources} --bundle --outdir=dist${outbase} --format=esm`;
 }
 
 export default generatePackage;
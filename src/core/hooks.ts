@@ -0,0 +1,151 @@
+/**
+ * Lifecycle Hooks
+ * Lets generators, presets and plugins change a package while it is generated:
+ * add banners to files, fields to package.json, or extra files
+ */
+import type {
+    GeneratedFile,
+    GeneratorHooks,
+    GeneratorResult,
+    HookContext,
+    RenderedFile,
+} from '../types/index.js';
+import { logger } from './logger.js';
+
+/**
+ * Every hook a subscriber can implement, in the order they run
+ */
+export const HOOK_NAMES = [
+    'beforeValidate',
+    'beforeRender',
+    'afterRender',
+    'beforePackageJson',
+    'afterWrite',
+    'onError',
+] as const satisfies ReadonlyArray<keyof GeneratorHooks>;
+
+/**
+ * Hooks subscribed for every generation, with where they came from
+ */
+class HookBus {
+    private subscribers: Array<{ hooks: GeneratorHooks; source: string }> = [];
+
+    /**
+     * Subscribe hooks to every generation
+     */
+    subscribe(hooks: GeneratorHooks, source: string): void {
+        this.subscribers.push({ hooks, source });
+        logger.debug(`Subscribed hooks: ${Object.keys(hooks).join(', ')} (${source})`);
+    }
+
+    /**
+     * Get all subscribed hooks, in subscription order
+     */
+    getSubscribers(): Array<{ hooks: GeneratorHooks; source: string }> {
+        return [...this.subscribers];
+    }
+}
+
+/**
+ * Global hook bus
+ */
+export const hookBus = new HookBus();
+
+/**
+ * Runs one generation's hooks
+ * Hooks of the same kind run in order; each transform receives the previous one's result
+ */
+export interface HookRunner {
+    beforeValidate(context: HookContext): Promise<void>;
+    /** Returns the file to render, or null to skip it */
+    beforeRender(file: GeneratedFile, context: HookContext): Promise<GeneratedFile | null>;
+    /** Returns the transformed content */
+    afterRender(file: RenderedFile, context: HookContext): Promise<string>;
+    /** Returns the transformed package.json */
+    beforePackageJson(pkg: Record<string, unknown>, context: HookContext): Promise<Record<string, unknown>>;
+    afterWrite(result: GeneratorResult, context: HookContext): Promise<void>;
+    /** Never throws; a failing error hook is only logged */
+    onError(error: Error, context: HookContext): Promise<void>;
+}
+
+/**
+ * Create a runner for a list of hook sets, skipping missing ones
+ */
+export function createHookRunner(hookSets: Array<GeneratorHooks | undefined>): HookRunner {
+    const sets = hookSets.filter((hooks): hooks is GeneratorHooks => hooks !== undefined);
+
+    return {
+        async beforeValidate(context) {
+            for (const hooks of sets) {
+                await hooks.beforeValidate?.(context);
+            }
+        },
+
+        async beforeRender(file, context) {
+            let current = file;
+            for (const hooks of sets) {
+                const replacement = await hooks.beforeRender?.(current, context);
+                if (replacement === false) {
+                    return null;
+                }
+                current = replacement || current;
+            }
+            return current;
+        },
+
+        async afterRender(file, context) {
+            let content = file.content;
+            for (const hooks of sets) {
+                const transformed = await hooks.afterRender?.({ path: file.path, content }, context);
+                if (typeof transformed === 'string') {
+                    content = transformed;
+                }
+            }
+            return content;
+        },
+
+        async beforePackageJson(pkg, context) {
+            let current = pkg;
+            for (const hooks of sets) {
+                current = (await hooks.beforePackageJson?.(current, context)) || current;
+            }
+            return current;
+        },
+
+        async afterWrite(result, context) {
+            for (const hooks of sets) {
+                await hooks.afterWrite?.(result, context);
+            }
+        },
+
+        async onError(error, context) {
+            for (const hooks of sets) {
+                try {
+                    await hooks.onError?.(error, context);
+                } catch (hookError) {
+                    logger.debug(`onError hook failed: ${hookError instanceof Error ? hookError.message : String(hookError)}`);
+                }
+            }
+        },
+    };
+}
+
+/**
+ * Check that a module export is a set of hook functions
+ * Returns the problems found
+ */
+export function validateHooks(candidate: unknown): string[] {
+    if (typeof candidate !== 'object' || candidate === null || Array.isArray(candidate)) {
+        return [`Hooks must be an object of hook functions, got ${Array.isArray(candidate) ? 'array' : typeof candidate}`];
+    }
+
+    const problems: string[] = [];
+    for (const [name, value] of Object.entries(candidate)) {
+        if (!(HOOK_NAMES as readonly string[]).includes(name)) {
+            problems.push(`Unknown hook "${name}" (known hooks: ${HOOK_NAMES.join(', ')})`);
+        } else if (typeof value !== 'function') {
+            problems.push(`Hook "${name}" must be a function`);
+        }
+    }
+    return problems;
+}
@@ -6,4 +6,11 @@ export { templateEngine, TemplateEngine } from './template-engine.js';
 export { registry } from './registry.js';
 export { BaseGenerator } from './base-generator.js';
 export { generatePackage } from './generator.js';
+export { generateWorkspace } from './workspace.js';
 export { validatePackage, PackageValidator } from './validator.js';
+export { loadAnswersFile, saveAnswersFile, validateAnswers } from './answers.js';
+export { printFileTree, printFileContents, printDiff } from './preview.js';
+export { FileTransaction } from './transaction.js';
+export { readManifest, MANIFEST_PATH } from './manifest.js';
+export { hookBus, HOOK_NAMES } from './hooks.js';
+export { versionCatalog, VersionCatalog } from './versions.js';
@@ -4,6 +4,7 @@
 import chalk from 'chalk';
 import gradient from 'gradient-string';
 import boxen from 'boxen';
+import type { ValidationIssue } from '../types/index.js';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
@@ -187,6 +188,26 @@ class Logger {
         const icon = this.config.colors ? icons[action] : action.charAt(0).toUpperCase();
         console.log(`  ${icon} ${path}`);
     }
+
+    /**
+     * Print problems found while loading presets, plugins or config
+     */
+    issues(issues: ValidationIssue[]) {
+        for (const issue of issues) {
+            const location = issue.jsonPath ? `${issue.file} (${issue.jsonPath})` : issue.file;
+            const message = location ? `${location}: ${issue.message}` : issue.message;
+
+            if (issue.severity === 'error') {
+                this.error(message);
+            } else {
+                this.warn(message);
+            }
+
+            if (issue.suggestion) {
+                this.list([chalk.dim(issue.suggestion)]);
+            }
+        }
+    }
 }
 
 export const logger = new Logger();
@@ -0,0 +1,148 @@
+/**
+ * Generation Manifest
+ * Records which generator, version and config produced a package, with a hash of every generated file
+ * Commands that work on an existing package read it instead of guessing from package.json
+ * The generated contents themselves are kept alongside as the base for three-way merges on update
+ */
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+    Generator,
+    GeneratorConfig,
+    GenerationManifest,
+    RenderedFile,
+} from '../types/index.js';
+import { CLI_VERSION } from './constants.js';
+
+/**
+ * Manifest location, relative to the package root
+ */
+export const MANIFEST_PATH = '.scaffold/manifest.json';
+
+/**
+ * Location of the generated contents, relative to the package root
+ * A single JSON file, so test runners and compilers never pick up the copies
+ */
+export const BASE_PATH = '.scaffold/base.json';
+
+/**
+ * Build the manifest for a set of rendered files
+ */
+export function createManifest(
+    generator: Generator,
+    config: GeneratorConfig,
+    rendered: RenderedFile[],
+    template?: string
+): GenerationManifest {
+    const { outDir: _outDir, ...portableConfig } = config;
+
+    return {
+        manifestVersion: 1,
+        cliVersion: CLI_VERSION,
+        generator: {
+            id: generator.meta.id,
+            version: generator.meta.version,
+            framework: generator.meta.framework,
+        },
+        preset: config.preset,
+        template,
+        config: portableConfig,
+        generatedAt: new Date().toISOString(),
+        files: Object.fromEntries(rendered.map((file) => [file.path, hashContent(Buffer.from(file.content, file.encoding ?? 'utf-8'))])),
+    };
+}
+
+/**
+ * Render a manifest as a file to write alongside the generated files
+ */
+export function renderManifest(manifest: GenerationManifest): RenderedFile {
+    return { path: MANIFEST_PATH, content: JSON.stringify(manifest, null, 2) + '\n' };
+}
+
+/**
+ * Render the generated contents as a file, keyed by relative path
+ */
+export function renderBase(rendered: RenderedFile[]): RenderedFile {
+    const base = Object.fromEntries(rendered.map((file) => [file.path, file.content]));
+    return { path: BASE_PATH, content: JSON.stringify(base, null, 2) + '\n' };
+}
+
+/**
+ * Read the generated contents of a package, or null if they weren't recorded
+ */
+export async function readBase(projectPath: string): Promise<Record<string, string> | null> {
+    const basePath = path.join(projectPath, BASE_PATH);
+
+    if (!await fs.pathExists(basePath)) {
+        return null;
+    }
+
+    try {
+        return await fs.readJson(basePath);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the manifest of a package, or null if it wasn't generated by scaffold-kit
+ */
+export async function readManifest(projectPath: string): Promise<GenerationManifest | null> {
+    const manifestPath = path.join(projectPath, MANIFEST_PATH);
+
+    if (!await fs.pathExists(manifestPath)) {
+        return null;
+    }
+
+    try {
+        const manifest = await fs.readJson(manifestPath);
+        if (manifest?.manifestVersion !== 1 || typeof manifest.generator?.framework !== 'string') {
+            return null;
+        }
+        return manifest as GenerationManifest;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Write a package's manifest back after changing it
+ */
+export async function writeManifest(projectPath: string, manifest: GenerationManifest): Promise<void> {
+    const manifestPath = path.join(projectPath, MANIFEST_PATH);
+    await fs.ensureDir(path.dirname(manifestPath));
+    await fs.writeFile(manifestPath, renderManifest(manifest).content, 'utf-8');
+}
+
+/**
+ * SHA-256 hash of file contents
+ * Text is hashed as UTF-8, so a string and its bytes hash the same
+ */
+export function hashContent(content: string | Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Get generated files whose contents no longer match the manifest
+ * Deleted files are reported too
+ */
+export async function getModifiedFiles(projectPath: string, manifest: GenerationManifest): Promise<string[]> {
+    const modified: string[] = [];
+
+    for (const [file, hash] of Object.entries(manifest.files)) {
+        const filePath = path.join(projectPath, file);
+        if (!await fs.pathExists(filePath) || hashContent(await fs.readFile(filePath)) !== hash) {
+            modified.push(file);
+        }
+    }
+
+    return modified;
+}
+
+/**
+ * Get the directory holding a package's library sources
+ */
+export function getSourceDir(manifest: GenerationManifest): string {
+    return manifest.generator.framework === 'svelte' ? 'src/lib' : 'src';
+}
@@ -0,0 +1,180 @@
+/**
+ * Three-Way Merge
+ * Line-based merge of two edited versions of a common base, in the style of diff3
+ * Changes on only one side are applied; overlapping changes that differ become conflicts
+ */
+import { diffArrays } from 'diff';
+
+/**
+ * Labels written on conflict markers
+ */
+export interface MergeLabels {
+    current: string;
+    incoming: string;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+    /** Merged content, with conflict markers where the two sides disagree */
+    content: string;
+    /** Number of conflicting regions */
+    conflicts: number;
+}
+
+/**
+ * A change to a range of base lines
+ */
+interface Hunk {
+    /** First base line replaced */
+    start: number;
+    /** Line after the last base line replaced (equal to start for a pure insertion) */
+    end: number;
+    /** Replacement lines */
+    lines: string[];
+    side: 'current' | 'incoming';
+}
+
+const DEFAULT_LABELS: MergeLabels = { current: 'current', incoming: 'incoming' };
+
+/**
+ * Merge the changes made to base by current and by incoming
+ */
+export function mergeThreeWay(
+    base: string,
+    current: string,
+    incoming: string,
+    labels: MergeLabels = DEFAULT_LABELS
+): MergeResult {
+    const baseLines = splitLines(base);
+    const hunks = [
+        ...getHunks(baseLines, splitLines(current), 'current'),
+        ...getHunks(baseLines, splitLines(incoming), 'incoming'),
+    ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let index = 0;
+
+    while (index < hunks.length) {
+        // Group hunks whose base ranges overlap or touch
+        const group = [hunks[index]];
+        const start = hunks[index].start;
+        let end = hunks[index].end;
+        index++;
+
+        while (index < hunks.length && hunks[index].start <= end) {
+            end = Math.max(end, hunks[index].end);
+            group.push(hunks[index]);
+            index++;
+        }
+
+        output.push(...baseLines.slice(position, start));
+        position = end;
+
+        const currentHunks = group.filter((h) => h.side === 'current');
+        const incomingHunks = group.filter((h) => h.side === 'incoming');
+        const currentLines = applyHunks(baseLines, start, end, currentHunks);
+        const incomingLines = applyHunks(baseLines, start, end, incomingHunks);
+
+        if (incomingHunks.length === 0 || currentLines.join('') === incomingLines.join('')) {
+            output.push(...currentLines);
+        } else if (currentHunks.length === 0) {
+            output.push(...incomingLines);
+        } else {
+            conflicts++;
+            output.push(
+                `<<<<<<< ${labels.current}\n`,
+                ...terminate(currentLines),
+                '=======\n',
+                ...terminate(incomingLines),
+                `>>>>>>> ${labels.incoming}\n`
+            );
+        }
+    }
+
+    output.push(...baseLines.slice(position));
+
+    return { content: output.join(''), conflicts };
+}
+
+/**
+ * Wrap two unrelated versions of a file in a single conflict
+ */
+export function conflictWhole(current: string, incoming: string, labels: MergeLabels = DEFAULT_LABELS): MergeResult {
+    return mergeThreeWay('', current, incoming, labels);
+}
+
+/**
+ * Check whether content still contains conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+    return /^<<<<<<< .*$[\s\S]*?^=======$[\s\S]*?^>>>>>>> /m.test(content);
+}
+
+/**
+ * Split content into lines, keeping line endings
+ */
+function splitLines(content: string): string[] {
+    return content.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Get the ranges of base lines that another version replaced
+ */
+function getHunks(base: string[], other: string[], side: Hunk['side']): Hunk[] {
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    let index = 0;
+
+    for (const change of diffArrays(base, other)) {
+        if (change.added) {
+            current ??= { start: index, end: index, lines: [], side };
+            current.lines.push(...change.value);
+        } else if (change.removed) {
+            current ??= { start: index, end: index, lines: [], side };
+            index += change.value.length;
+            current.end = index;
+        } else {
+            if (current) {
+                hunks.push(current);
+                current = null;
+            }
+            index += change.value.length;
+        }
+    }
+
+    if (current) {
+        hunks.push(current);
+    }
+
+    return hunks;
+}
+
+/**
+ * Apply one side's hunks to a range of base lines
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+    const lines: string[] = [];
+    let position = start;
+
+    for (const hunk of hunks) {
+        lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+        position = hunk.end;
+    }
+
+    lines.push(...base.slice(position, end));
+    return lines;
+}
+
+/**
+ * Make sure the last line ends with a newline, so a conflict marker can follow it
+ */
+function terminate(lines: string[]): string[] {
+    if (lines.length === 0 || lines[lines.length - 1].endsWith('\n')) {
+        return lines;
+    }
+    return [...lines.slice(0, -1), lines[lines.length - 1] + '\n'];
+}
@@ -0,0 +1,204 @@
+/**
+ * Post-Generation Actions
+ * Optional steps run in a freshly generated package: git init, dependency install,
+ * husky setup and an initial commit
+ */
+import path from 'path';
+import ora from 'ora';
+import { execa } from 'execa';
+import type {
+    GeneratorConfig,
+    PackageManager,
+    PostGenerateAction,
+    PostGenerateOutcome,
+} from '../types/index.js';
+
+/**
+ * Which post-generation actions to run
+ */
+export interface PostGenerateOptions {
+    initGit?: boolean;
+    installDependencies?: boolean;
+    setupHusky?: boolean;
+}
+
+/**
+ * Message used for the generated initial commit
+ */
+const INITIAL_COMMIT_MESSAGE = 'chore: initial commit';
+
+/**
+ * Run the selected post-generation actions in order, reporting each one's status
+ * A failed action never aborts the ones after it; each action checks what it depends on
+ */
+export async function runPostGenerateActions(
+    config: Pick<GeneratorConfig, 'outDir' | 'packageManager' | 'includeHusky'>,
+    options: PostGenerateOptions
+): Promise<PostGenerateOutcome[]> {
+    const outcomes: PostGenerateOutcome[] = [];
+    const cwd = config.outDir;
+    const pm = config.packageManager;
+
+    const run = async (
+        action: PostGenerateAction,
+        label: string,
+        task: () => Promise<void>,
+        skipReason?: string
+    ): Promise<PostGenerateOutcome> => {
+        const spinner = ora(label).start();
+        let outcome: PostGenerateOutcome;
+
+        if (skipReason) {
+            outcome = { action, status: 'skipped', message: skipReason };
+        } else {
+            try {
+                await task();
+                outcome = { action, status: 'done' };
+            } catch (error) {
+                outcome = { action, status: 'failed', message: describeError(error) };
+            }
+        }
+
+        if (outcome.status === 'done') {
+            spinner.succeed(label);
+        } else if (outcome.status === 'skipped') {
+            spinner.warn(`${label} skipped: ${outcome.message}`);
+        } else {
+            spinner.fail(`${label} failed: ${outcome.message}`);
+        }
+
+        outcomes.push(outcome);
+        return outcome;
+    };
+
+    // Git comes first so husky can install its hooks into the new repository
+    let createdRepository = false;
+    if (options.initGit) {
+        const existingRepository = await isInsideGitRepository(cwd);
+        await run('git', 'Initializing git repository', async () => {
+            await execa('git', ['init'], { cwd });
+            createdRepository = true;
+        }, existingRepository ? 'already inside a git repository' : undefined);
+    }
+
+    let installed = false;
+    if (options.installDependencies) {
+        const outcome = await run('install', `Installing dependencies with ${pm}`, async () => {
+            await execa(pm, ['install'], { cwd });
+        });
+        installed = outcome.status === 'done';
+    }
+
+    if (options.setupHusky && config.includeHusky) {
+        let skipReason: string | undefined;
+        if (!installed) {
+            skipReason = 'dependencies are not installed';
+        } else if (!await isInsideGitRepository(cwd)) {
+            skipReason = 'not a git repository';
+        }
+
+        await run('husky', 'Setting up git hooks with husky', async () => {
+            const [command, ...args] = getExecCommand(pm, 'husky').split(' ');
+            await execa(command, args, { cwd });
+        }, skipReason);
+    }
+
+    // Commit last so the lockfile and husky setup are included
+    if (createdRepository) {
+        await run('commit', 'Creating initial commit', async () => {
+            await execa('git', ['add', '-A'], { cwd });
+            // Generated hooks may expect tools that aren't installed yet
+            await execa('git', ['commit', '--no-verify', '-m', INITIAL_COMMIT_MESSAGE], { cwd });
+        });
+    }
+
+    return outcomes;
+}
+
+/**
+ * Get next steps for the user, leaving out anything post-generation already did
+ */
+export function getNextSteps(config: Pick<GeneratorConfig, 'outDir' | 'packageManager'>, outcomes: PostGenerateOutcome[] = []): string[] {
+    const done = (action: PostGenerateAction) => outcomes.some((o) => o.action === action && o.status === 'done');
+    const steps: string[] = [];
+
+    const dir = path.relative(process.cwd(), config.outDir);
+    if (dir) {
+        steps.push(`cd ${dir}`);
+    }
+
+    if (!done('install')) {
+        steps.push(getInstallCommand(config.packageManager));
+    }
+
+    steps.push(getRunCommand(config.packageManager, 'build'));
+    steps.push(getRunCommand(config.packageManager, 'test'));
+
+    return steps;
+}
+
+/**
+ * Get the command that installs dependencies
+ */
+export function getInstallCommand(pm: PackageManager): string {
+    return pm === 'yarn' ? 'yarn' : `${pm} install`;
+}
+
+/**
+ * Get the command that runs a package.json script
+ * `bun test` would run bun's own test runner, so bun always needs `run`
+ */
+export function getRunCommand(pm: PackageManager, script: string): string {
+    switch (pm) {
+        case 'pnpm':
+        case 'yarn':
+            return `${pm} ${script}`;
+        default:
+            return `${pm} run ${script}`;
+    }
+}
+
+/**
+ * Get the command that runs a locally installed binary
+ */
+export function getExecCommand(pm: PackageManager, bin: string): string {
+    switch (pm) {
+        case 'pnpm':
+            return `pnpm exec ${bin}`;
+        case 'yarn':
+            return `yarn ${bin}`;
+        case 'bun':
+            return `bunx ${bin}`;
+        default:
+            return `npx ${bin}`;
+    }
+}
+
+/**
+ * Check whether a directory is inside a git working tree
+ */
+async function isInsideGitRepository(cwd: string): Promise<boolean> {
+    try {
+        await execa('git', ['rev-parse', '--is-inside-work-tree'], { cwd });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Reduce a failed command to a one-line reason
+ */
+function describeError(error: unknown): string {
+    if (error && typeof error === 'object') {
+        const { code, stderr } = error as { code?: string; stderr?: string };
+        if (code === 'ENOENT') {
+            return 'command not found';
+        }
+        const lastLine = stderr?.trim().split('\n').pop();
+        if (lastLine) {
+            return lastLine;
+        }
+    }
+    return error instanceof Error ? error.message : String(error);
+}
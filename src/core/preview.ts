@@ -0,0 +1,173 @@
+/**
+ * Preview
+ * Renders dry-run output: a file tree with sizes, full file contents, or a diff against a directory
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import { createTwoFilesPatch } from 'diff';
+import type { RenderedFile } from '../types/index.js';
+import { formatBytes } from './analyzer/index.js';
+
+/**
+ * Node in the preview file tree
+ */
+interface TreeNode {
+    name: string;
+    size?: number;
+    children: Map<string, TreeNode>;
+}
+
+/**
+ * Print rendered files as a tree with file sizes
+ */
+export function printFileTree(files: RenderedFile[], rootName: string): void {
+    const root: TreeNode = { name: rootName, children: new Map() };
+
+    for (const file of files) {
+        const parts = file.path.split('/');
+        let node = root;
+        for (const part of parts) {
+            if (!node.children.has(part)) {
+                node.children.set(part, { name: part, children: new Map() });
+            }
+            node = node.children.get(part)!;
+        }
+        node.size = Buffer.byteLength(file.content, file.encoding ?? 'utf-8');
+    }
+
+    const totalSize = files.reduce((acc, f) => acc + Buffer.byteLength(f.content, f.encoding ?? 'utf-8'), 0);
+
+    console.log(chalk.bold(`${root.name}/`));
+    printChildren(root, '');
+    console.log();
+    console.log(chalk.dim(`${files.length} files, ${formatBytes(totalSize)}`));
+}
+
+function printChildren(node: TreeNode, prefix: string): void {
+    // Directories first, then files, each alphabetically
+    const children = Array.from(node.children.values()).sort((a, b) => {
+        const aDir = a.children.size > 0;
+        const bDir = b.children.size > 0;
+        if (aDir !== bDir) return aDir ? -1 : 1;
+        return a.name.localeCompare(b.name);
+    });
+
+    children.forEach((child, index) => {
+        const last = index === children.length - 1;
+        const branch = last ? '└── ' : '├── ';
+
+        if (child.children.size > 0) {
+            console.log(`${prefix}${branch}${chalk.blue(child.name + '/')}`);
+            printChildren(child, prefix + (last ? '    ' : '│   '));
+        } else {
+            console.log(`${prefix}${branch}${child.name} ${chalk.dim(formatBytes(child.size || 0))}`);
+        }
+    });
+}
+
+/**
+ * Print the full contents of every rendered file
+ */
+export function printFileContents(files: RenderedFile[]): void {
+    for (const file of files) {
+        console.log(chalk.bold.cyan(`─── ${file.path} ───`));
+        if (file.encoding === 'base64') {
+            console.log(chalk.dim(`(copied as is, ${formatBytes(Buffer.byteLength(file.content, 'base64'))})`));
+        } else {
+            console.log(file.content.endsWith('\n') ? file.content.slice(0, -1) : file.content);
+        }
+        console.log();
+    }
+}
+
+/**
+ * How a rendered file compares to what is already on disk
+ */
+export interface FileComparison {
+    file: RenderedFile;
+    status: 'added' | 'unchanged' | 'changed';
+    /** Current contents on disk, when the file exists */
+    existing?: string;
+}
+
+/**
+ * Compare rendered files against an existing directory
+ */
+export async function compareWithDirectory(files: RenderedFile[], targetDir: string): Promise<FileComparison[]> {
+    const comparisons: FileComparison[] = [];
+
+    for (const file of files) {
+        const existingPath = path.join(targetDir, file.path);
+
+        if (!await fs.pathExists(existingPath)) {
+            comparisons.push({ file, status: 'added' });
+            continue;
+        }
+
+        const existing = await fs.readFile(existingPath, file.encoding ?? 'utf-8');
+        comparisons.push({
+            file,
+            status: existing === file.content ? 'unchanged' : 'changed',
+            existing,
+        });
+    }
+
+    return comparisons;
+}
+
+/**
+ * Create a unified diff patch from a file's current contents to new contents
+ * Files copied verbatim (base64 contents) are only reported as differing
+ */
+export function createFilePatch(
+    filePath: string,
+    existing: string | undefined,
+    content: string,
+    encoding?: 'base64'
+): string {
+    if (encoding === 'base64') {
+        return `Binary files ${existing === undefined ? '/dev/null' : `a/${filePath}`} and b/${filePath} differ`;
+    }
+
+    return createTwoFilesPatch(
+        existing === undefined ? '/dev/null' : `a/${filePath}`,
+        `b/${filePath}`,
+        existing ?? '',
+        content
+    );
+}
+
+/**
+ * Print a unified diff of rendered files against an existing directory
+ * Returns the number of files that would change
+ */
+export async function printDiff(files: RenderedFile[], targetDir: string): Promise<number> {
+    const changed = (await compareWithDirectory(files, targetDir)).filter((c) => c.status !== 'unchanged');
+
+    for (const comparison of changed) {
+        const { file } = comparison;
+        printPatch(createFilePatch(file.path, comparison.existing, file.content, file.encoding));
+    }
+
+    return changed.length;
+}
+
+/**
+ * Print a unified diff patch with colors
+ */
+export function printPatch(patch: string): void {
+    for (const line of patch.split('\n')) {
+        if (line.startsWith('+++') || line.startsWith('---')) {
+            console.log(chalk.bold(line));
+        } else if (line.startsWith('+')) {
+            console.log(chalk.green(line));
+        } else if (line.startsWith('-')) {
+            console.log(chalk.red(line));
+        } else if (line.startsWith('@@')) {
+            console.log(chalk.cyan(line));
+        } else if (!line.startsWith('====')) {
+            console.log(line);
+        }
+    }
+}
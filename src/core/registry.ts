@@ -3,7 +3,14 @@
  * Central registry for all framework generators
  * Enables pluggable architecture without modifying core logic
  */
-import type { Generator, Framework, GeneratorMeta } from '../types/index.js';
+import type {
+    Generator,
+    Framework,
+    GeneratorMeta,
+    GeneratorSource,
+    PackageType,
+    RuntimeTarget,
+} from '../types/index.js';
 import { logger } from './logger.js';
 
 /**
@@ -12,18 +19,21 @@ import { logger } from './logger.js';
 class GeneratorRegistry {
     private generators: Map<string, Generator> = new Map();
     private frameworkMap: Map<Framework, Generator[]> = new Map();
+    private sources: Map<string, GeneratorSource> = new Map();
 
     /**
      * Register a generator plugin
      */
-    register(generator: Generator): void {
+    register(generator: Generator, source: GeneratorSource = { kind: 'builtin', name: 'scaffold-kit' }): void {
         const { id, framework } = generator.meta;
 
         if (this.generators.has(id)) {
             logger.warn(`Generator "${id}" is already registered. Overwriting.`);
+            this.unregister(id);
         }
 
         this.generators.set(id, generator);
+        this.sources.set(id, source);
 
         // Update framework map
         const existing = this.frameworkMap.get(framework) || [];
@@ -42,6 +52,7 @@ class GeneratorRegistry {
         }
 
         this.generators.delete(id);
+        this.sources.delete(id);
 
         // Update framework map
         const framework = generator.meta.framework;
@@ -61,6 +72,22 @@ class GeneratorRegistry {
         return this.generators.get(id);
     }
 
+    /**
+     * Get where a generator came from
+     */
+    getSource(id: string): GeneratorSource | undefined {
+        return this.sources.get(id);
+    }
+
+    /**
+     * Get the directories to search for a generator's templates, in order
+     * Plugins resolve their own templates first and can still use the built-in common templates
+     */
+    getTemplateRoots(id: string): string[] {
+        const templatesRoot = this.sources.get(id)?.templatesRoot;
+        return templatesRoot ? [templatesRoot] : [];
+    }
+
     /**
      * Get all generators for a framework
      */
@@ -76,6 +103,21 @@ class GeneratorRegistry {
         return generators[0]; // First registered is primary
     }
 
+    /**
+     * Get the generators for a framework that support a package type and runtime target
+     * Requirements left undefined don't filter; registration order is kept
+     */
+    findCompatible(
+        framework: Framework,
+        requirements: { packageType?: PackageType; runtimeTarget?: RuntimeTarget } = {}
+    ): Generator[] {
+        const { packageType, runtimeTarget } = requirements;
+        return this.getByFramework(framework).filter((g) =>
+            (!packageType || g.meta.supportedPackageTypes.includes(packageType)) &&
+            (!runtimeTarget || g.meta.supportedRuntimeTargets.includes(runtimeTarget))
+        );
+    }
+
     /**
      * Get all registered generators
      */
@@ -117,6 +159,7 @@ class GeneratorRegistry {
     clear(): void {
         this.generators.clear();
         this.frameworkMap.clear();
+        this.sources.clear();
     }
 }
 
@@ -6,7 +6,9 @@ import Handlebars from 'handlebars';
 import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import type { TemplateContext } from '../types/index.js';
+import { glob, hasMagic } from 'glob';
+import type { TemplateContext, WorkspaceTemplateContext } from '../types/index.js';
+import { logger } from './logger.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -53,18 +55,47 @@ function findPackageRoot(startDir: string): string | null {
 
 const TEMPLATES_ROOT = findTemplatesRoot();
 
+/**
+ * How undefined variables and unknown helpers in templates are treated
+ * strict: rendering fails; lenient: a warning is logged and they render as empty
+ */
+export type TemplateStrictness = 'strict' | 'lenient';
+
+/**
+ * Strict under a test runner, so template typos fail tests; lenient otherwise
+ */
+function getDefaultStrictness(): TemplateStrictness {
+    return process.env.VITEST || process.env.NODE_ENV === 'test' ? 'strict' : 'lenient';
+}
+
 /**
  * Template engine class for processing templates
  */
 export class TemplateEngine {
     private handlebars: typeof Handlebars;
     private cache: Map<string, Handlebars.TemplateDelegate> = new Map();
+    private sources: Map<string, string> = new Map();
+    private strictness: TemplateStrictness = getDefaultStrictness();
 
     constructor() {
         this.handlebars = Handlebars.create();
         this.registerHelpers();
     }
 
+    /**
+     * Set how undefined variables and unknown helpers are treated
+     */
+    setStrictness(strictness: TemplateStrictness) {
+        this.strictness = strictness;
+    }
+
+    /**
+     * Get how undefined variables and unknown helpers are treated
+     */
+    getStrictness(): TemplateStrictness {
+        return this.strictness;
+    }
+
     /**
      * Register custom Handlebars helpers
      */
@@ -187,44 +218,133 @@ export class TemplateEngine {
         this.handlebars.registerHelper('join', (arr: unknown[], separator = ', ') => {
             return Array.isArray(arr) ? arr.join(separator) : '';
         });
+
+        // Unknown helpers render as empty; only reached in lenient mode, after the problem was reported
+        this.handlebars.registerHelper('helperMissing', () => '');
     }
 
     /**
-     * Load and compile a template from the templates directory
+     * Load and compile a template
+     * Extra roots (such as a plugin's templates) are searched before the built-in templates directory
+     * A strict template throws on undefined variables and unknown helpers
      */
-    async loadTemplate(templatePath: string): Promise<Handlebars.TemplateDelegate> {
+    async loadTemplate(templatePath: string, roots: string[] = [], strict = false): Promise<Handlebars.TemplateDelegate> {
+        const fullPath = await this.resolveTemplate(templatePath, roots);
+
+        if (!fullPath) {
+            throw new Error(`Template not found: ${templatePath}`);
+        }
+
         // Check cache first
-        if (this.cache.has(templatePath)) {
-            return this.cache.get(templatePath)!;
+        const cacheKey = `${strict ? 'strict' : 'lenient'}:${fullPath}`;
+        if (this.cache.has(cacheKey)) {
+            return this.cache.get(cacheKey)!;
         }
 
-        const fullPath = path.join(TEMPLATES_ROOT, templatePath);
+        const content = this.sources.get(fullPath) ?? await fs.readFile(fullPath, 'utf-8');
+        const compiled = this.handlebars.compile(content, { noEscape: true, strict });
 
-        if (!await fs.pathExists(fullPath)) {
-            throw new Error(`Template not found: ${templatePath}`);
+        this.sources.set(fullPath, content);
+        this.cache.set(cacheKey, compiled);
+        return compiled;
+    }
+
+    /**
+     * Find the first root containing a template
+     */
+    async resolveTemplate(templatePath: string, roots: string[] = []): Promise<string | null> {
+        for (const root of [...roots, TEMPLATES_ROOT]) {
+            const fullPath = path.join(root, templatePath);
+            if (await fs.pathExists(fullPath)) {
+                return fullPath;
+            }
         }
+        return null;
+    }
 
-        const content = await fs.readFile(fullPath, 'utf-8');
-        const compiled = this.handlebars.compile(content, { noEscape: true });
+    /**
+     * Find the files to copy for an asset path or glob, searching roots in order
+     * Returns each file's path relative to the glob's base directory (empty for a single file),
+     * mapped to where it was found; a file in an earlier root shadows the same path in later ones
+     */
+    async resolveAssets(pattern: string, roots: string[] = []): Promise<Map<string, string>> {
+        const assets = new Map<string, string>();
 
-        this.cache.set(templatePath, compiled);
-        return compiled;
+        if (!hasMagic(pattern)) {
+            const fullPath = await this.resolveTemplate(pattern, roots);
+            if (fullPath && (await fs.stat(fullPath)).isFile()) {
+                assets.set('', fullPath);
+            }
+            return assets;
+        }
+
+        // The segments before the first one with a wildcard
+        const segments = pattern.split('/');
+        const base = segments.slice(0, segments.findIndex((segment) => hasMagic(segment))).join('/');
+
+        for (const root of [...roots, TEMPLATES_ROOT]) {
+            const matches = await glob(pattern, { cwd: root, nodir: true, dot: true, posix: true });
+            for (const match of matches.sort()) {
+                const relative = path.posix.relative(base, match);
+                if (!assets.has(relative)) {
+                    assets.set(relative, path.join(root, match));
+                }
+            }
+        }
+
+        return assets;
     }
 
     /**
      * Render a template with the given context
+     * Undefined variables and unknown helpers fail in strict mode and are warned about in lenient mode,
+     * naming the template and line either way
      */
-    async render(templatePath: string, context: TemplateContext): Promise<string> {
-        const template = await this.loadTemplate(templatePath);
-        return template(context);
+    async render(templatePath: string, context: TemplateContext | WorkspaceTemplateContext, roots: string[] = []): Promise<string> {
+        const template = await this.loadTemplate(templatePath, roots, true);
+
+        try {
+            return template(context);
+        } catch (error) {
+            const fullPath = (await this.resolveTemplate(templatePath, roots))!;
+            const source = this.sources.get(fullPath) ?? '';
+
+            if (this.strictness === 'strict') {
+                throw new Error(describeTemplateError(templatePath, source, error));
+            }
+
+            collectTemplateProblems(template, context, error)
+                .forEach((problem) => logger.warn(describeTemplateError(templatePath, source, problem)));
+            return (await this.loadTemplate(templatePath, roots, false))(context);
+        }
     }
 
     /**
      * Render a string template directly
      */
-    renderString(templateString: string, context: TemplateContext): string {
-        const compiled = this.handlebars.compile(templateString, { noEscape: true });
-        return compiled(context);
+    renderString(templateString: string, context: TemplateContext | WorkspaceTemplateContext): string {
+        const strict = this.strictness === 'strict';
+        const compiled = this.handlebars.compile(templateString, { noEscape: true, strict });
+
+        try {
+            return compiled(context);
+        } catch (error) {
+            throw new Error(describeTemplateError('<inline template>', templateString, error));
+        }
+    }
+
+    /**
+     * Get the names of all registered helpers, including the Handlebars built-ins
+     */
+    getHelperNames(): string[] {
+        return Object.keys(this.handlebars.helpers);
+    }
+
+    /**
+     * Get the names of all registered partials
+     */
+    getPartialNames(): string[] {
+        return Object.keys(this.handlebars.partials);
     }
 
     /**
@@ -248,6 +368,7 @@ export class TemplateEngine {
      */
     clearCache() {
         this.cache.clear();
+        this.sources.clear();
     }
 
     /**
@@ -258,6 +379,68 @@ export class TemplateEngine {
     }
 }
 
+/**
+ * Collect every undefined top-level name a strict template trips over, not just the first
+ * Each one found is stubbed out and the template rendered again
+ */
+function collectTemplateProblems(
+    template: Handlebars.TemplateDelegate,
+    context: TemplateContext | WorkspaceTemplateContext,
+    firstError: unknown
+): unknown[] {
+    const problems = [firstError];
+    const stubbed: Record<string, unknown> = { ...context };
+    let error = firstError;
+
+    for (let attempt = 0; attempt < 50; attempt++) {
+        const name = (error instanceof Error ? error.message : '').match(/^"([^"]+)" not defined/)?.[1];
+        if (!name || name in stubbed) {
+            break;
+        }
+
+        // A function stands in for both a variable and a helper
+        stubbed[name] = () => '';
+        try {
+            template(stubbed);
+            break;
+        } catch (next) {
+            const nextName = (next instanceof Error ? next.message : '').match(/^"([^"]+)" not defined/)?.[1];
+            if (nextName && nextName in stubbed) {
+                // Not a top-level name (e.g. a missing field inside #each), so stubbing can't get past it
+                break;
+            }
+            problems.push(next);
+            error = next;
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Describe a rendering error with the template path and, when Handlebars knows it, the line
+ * Strict-mode lookups report '"name" not defined in [object Object] - line:column'
+ */
+function describeTemplateError(templatePath: string, source: string, error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const { lineNumber, column } = (error ?? {}) as { lineNumber?: number; column?: number };
+    const location = lineNumber !== undefined ? `${templatePath}:${lineNumber}` : templatePath;
+
+    const undefinedName = message.match(/^"([^"]+)" not defined/)?.[1];
+    if (!undefinedName) {
+        return `${location}: ${message}`;
+    }
+
+    // Followed by arguments, the name was used as a helper
+    const line = source.split('\n')[(lineNumber ?? 1) - 1] ?? '';
+    const usedAsHelper = column !== undefined && new RegExp(`^${escapeRegExp(undefinedName)}\\s+[^\\s}]`).test(line.slice(column));
+    return `${location}: ${usedAsHelper ? 'unknown helper' : 'undefined variable'} "${undefinedName}"`;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 // Export singleton instance
 export const templateEngine = new TemplateEngine();
 export default templateEngine;
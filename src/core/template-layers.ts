@@ -0,0 +1,102 @@
+/**
+ * Template Layers
+ * The ordered search path for templates: override directories from scaffold config,
+ * then generator plugin templates, then the built-in templates
+ * A template found in an earlier layer shadows the same relative path in later ones
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import type { TemplateLayer } from '../types/index.js';
+import { loadScaffoldConfig } from './config.js';
+import { registry } from './registry.js';
+import { templateEngine } from './template-engine.js';
+
+/**
+ * A template path and the layers that provide it, in search order
+ */
+export interface ResolvedTemplate {
+    path: string;
+    /** Layer the template is loaded from */
+    layer: TemplateLayer;
+    /** Later layers that also provide it */
+    shadowed: TemplateLayer[];
+}
+
+/**
+ * Get the override layers configured for a directory
+ * Project config comes before user config; within a file, the listed order is kept
+ * Directories that don't exist yet are included, so templates can be ejected into them
+ */
+export async function getOverrideLayers(cwd: string = process.cwd()): Promise<TemplateLayer[]> {
+    const { layers } = await loadScaffoldConfig(cwd);
+
+    return [...layers].reverse().flatMap((layer) =>
+        (layer.config.templateOverrides || []).map((dir) => ({
+            kind: 'override' as const,
+            name: `${layer.scope} override ${dir}`,
+            root: path.resolve(path.dirname(layer.file), dir),
+        }))
+    );
+}
+
+/**
+ * Get the full template search path: overrides, generator plugins, built-in
+ */
+export async function getTemplateLayers(cwd: string = process.cwd()): Promise<TemplateLayer[]> {
+    const plugins: TemplateLayer[] = [];
+
+    for (const generator of registry.getAll()) {
+        const source = registry.getSource(generator.meta.id);
+        if (source?.templatesRoot && !plugins.some((p) => p.root === source.templatesRoot)) {
+            plugins.push({ kind: 'plugin', name: `plugin ${source.name}`, root: source.templatesRoot });
+        }
+    }
+
+    return [
+        ...await getOverrideLayers(cwd),
+        ...plugins,
+        { kind: 'builtin', name: 'built-in', root: templateEngine.getTemplatesRoot() },
+    ];
+}
+
+/**
+ * List the templates in a layer, as relative paths with forward slashes
+ */
+export async function listLayerTemplates(root: string, relative = ''): Promise<string[]> {
+    const dir = path.join(root, relative);
+    if (!await fs.pathExists(dir)) {
+        return [];
+    }
+
+    const templates: string[] = [];
+    for (const name of (await fs.readdir(dir)).sort()) {
+        const templatePath = relative ? `${relative}/${name}` : name;
+        if ((await fs.stat(path.join(root, templatePath))).isDirectory()) {
+            templates.push(...await listLayerTemplates(root, templatePath));
+        } else if (name.endsWith('.hbs')) {
+            templates.push(templatePath);
+        }
+    }
+
+    return templates;
+}
+
+/**
+ * Work out which layer every template is loaded from
+ */
+export async function resolveTemplateLayers(layers: TemplateLayer[]): Promise<ResolvedTemplate[]> {
+    const resolved = new Map<string, ResolvedTemplate>();
+
+    for (const layer of layers) {
+        for (const templatePath of await listLayerTemplates(layer.root)) {
+            const existing = resolved.get(templatePath);
+            if (existing) {
+                existing.shadowed.push(layer);
+            } else {
+                resolved.set(templatePath, { path: templatePath, layer, shadowed: [] });
+            }
+        }
+    }
+
+    return Array.from(resolved.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,359 @@
+/**
+ * Template Lint
+ * Statically checks templates without rendering them: syntax, helpers and partials that aren't
+ * registered, and variables that aren't on the template context
+ * Also checks that every template a registered generator asks for exists
+ */
+import Handlebars from 'handlebars';
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+    Generator,
+    GeneratorConfig,
+    TemplateLayer,
+    ValidationIssue,
+} from '../types/index.js';
+import { templateEngine } from './template-engine.js';
+import { registry } from './registry.js';
+import { buildTemplateContext } from './generator.js';
+import { buildWorkspaceContext } from './workspace.js';
+import { listLayerTemplates } from './template-layers.js';
+import { BUILD_SYSTEMS, MODULE_FORMATS, CI_PROVIDERS } from './constants.js';
+
+/**
+ * Every GeneratorConfig field; a Record so a new config field can't be left out
+ */
+const CONFIG_FIELDS: Record<keyof GeneratorConfig, true> = {
+    name: true,
+    description: true,
+    packageType: true,
+    runtimeTarget: true,
+    moduleFormat: true,
+    buildSystem: true,
+    packageManager: true,
+    license: true,
+    author: true,
+    repository: true,
+    outDir: true,
+    frameworkOptions: true,
+    includeExample: true,
+    subpathExports: true,
+    styling: true,
+    preset: true,
+    ciProvider: true,
+    includeHusky: true,
+    includeCommitlint: true,
+    includeSemanticRelease: true,
+    includeChangesets: true,
+    includeStorybook: true,
+    additionalDevDeps: true,
+    additionalScripts: true,
+    additionalFiles: true,
+    formatting: true,
+    includeFormattingConfig: true,
+    workspace: true,
+};
+
+/**
+ * Block helpers that render their body against a different context
+ */
+const SCOPING_HELPERS = new Set(['each', 'with']);
+
+/**
+ * What a single template references
+ */
+export interface TemplateReferences {
+    /** Variable paths resolved against the root context */
+    variables: string[];
+    /** Helpers called */
+    helpers: string[];
+    /** Partials included */
+    partials: string[];
+}
+
+/**
+ * Lint result for one template file
+ */
+export interface TemplateLintResult {
+    /** Template path, relative to its layer */
+    path: string;
+    layer: TemplateLayer;
+    references: TemplateReferences;
+    issues: ValidationIssue[];
+}
+
+/**
+ * A context scope while walking the template
+ */
+interface Scope {
+    /** Root context, or an item whose shape isn't known statically */
+    kind: 'root' | 'item';
+    blockParams: string[];
+}
+
+/**
+ * Lint every template in the given layers
+ */
+export async function lintTemplateLayers(layers: TemplateLayer[]): Promise<TemplateLintResult[]> {
+    const knownVariables = getKnownVariables();
+    const results: TemplateLintResult[] = [];
+
+    for (const layer of layers) {
+        for (const templatePath of await listLayerTemplates(layer.root)) {
+            const source = await fs.readFile(path.join(layer.root, templatePath), 'utf-8');
+            const file = path.join(layer.root, templatePath);
+            results.push({ path: templatePath, layer, ...lintTemplate(source, file, knownVariables) });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Lint a single template's source
+ */
+export function lintTemplate(
+    source: string,
+    file: string,
+    knownVariables: Set<string> = getKnownVariables()
+): { references: TemplateReferences; issues: ValidationIssue[] } {
+    const references: TemplateReferences = { variables: [], helpers: [], partials: [] };
+    const issues: ValidationIssue[] = [];
+    const helpers = new Set(templateEngine.getHelperNames());
+    const partials = new Set(templateEngine.getPartialNames());
+
+    const report = (message: string, node?: hbs.AST.Node) => {
+        const line = node?.loc?.start.line;
+        issues.push({ severity: 'error', category: 'templates', message, file: line ? `${file}:${line}` : file });
+    };
+
+    let program: hbs.AST.Program;
+    try {
+        program = Handlebars.parse(source);
+    } catch (error) {
+        const message = (error instanceof Error ? error.message.split('\n')[0] : String(error)).replace(/ - \d+:\d+$/, '');
+        const line = (error as { lineNumber?: number }).lineNumber;
+        issues.push({ severity: 'error', category: 'templates', message, file: line ? `${file}:${line}` : file });
+        return { references, issues };
+    }
+
+    const addUnique = (list: string[], value: string) => {
+        if (!list.includes(value)) list.push(value);
+    };
+
+    const checkPath = (node: hbs.AST.PathExpression, scopes: Scope[]) => {
+        if (node.data) {
+            // @root.x refers to the root context; @index, @key and friends are always defined
+            if (node.parts[0] === 'root' && node.parts.length > 1) {
+                checkRootVariable(node.parts.slice(1), node);
+            }
+            return;
+        }
+
+        if (node.parts.length === 0 || scopes.some((s) => s.blockParams.includes(node.parts[0]))) {
+            return;
+        }
+
+        const scope = scopes[scopes.length - 1 - node.depth];
+        if (!scope) {
+            report(`"${node.original}" goes above the root context`, node);
+        } else if (scope.kind === 'root') {
+            checkRootVariable(node.parts, node);
+        }
+    };
+
+    const checkRootVariable = (parts: string[], node: hbs.AST.Node) => {
+        const variable = parts.join('.');
+        addUnique(references.variables, variable);
+        if (!knownVariables.has(parts[0])) {
+            report(`Unknown variable "${variable}" is not on the template context`, node);
+        }
+    };
+
+    const checkHelper = (name: string, node: hbs.AST.Node) => {
+        addUnique(references.helpers, name);
+        if (!helpers.has(name)) {
+            report(`Unknown helper "${name}"`, node);
+        }
+    };
+
+    const visitExpression = (node: hbs.AST.Expression, scopes: Scope[]) => {
+        if (node.type === 'PathExpression') {
+            checkPath(node as hbs.AST.PathExpression, scopes);
+        } else if (node.type === 'SubExpression') {
+            visitCall(node as hbs.AST.SubExpression, scopes, true);
+        }
+    };
+
+    // A mustache, block or subexpression; without arguments the name may be a variable instead of a helper
+    const visitCall = (
+        node: hbs.AST.MustacheStatement | hbs.AST.BlockStatement | hbs.AST.SubExpression,
+        scopes: Scope[],
+        isCall: boolean
+    ) => {
+        const name = node.path.type === 'PathExpression' ? (node.path as hbs.AST.PathExpression).original : undefined;
+        const hasArguments = node.params.length > 0 || (node.hash?.pairs.length ?? 0) > 0;
+
+        if (name && (isCall || hasArguments || helpers.has(name))) {
+            checkHelper(name, node);
+        } else {
+            visitExpression(node.path, scopes);
+        }
+
+        node.params.forEach((param) => visitExpression(param, scopes));
+        node.hash?.pairs.forEach((pair) => visitExpression(pair.value, scopes));
+    };
+
+    const visitProgram = (body: hbs.AST.Program | undefined, scopes: Scope[]) => {
+        for (const statement of body?.body ?? []) {
+            switch (statement.type) {
+                case 'MustacheStatement':
+                    visitCall(statement as hbs.AST.MustacheStatement, scopes, false);
+                    break;
+                case 'BlockStatement': {
+                    const block = statement as hbs.AST.BlockStatement;
+                    const name = (block.path as hbs.AST.PathExpression).original;
+                    visitCall(block, scopes, false);
+
+                    // each/with (and sections over a variable) render their body against another context
+                    const changesScope = SCOPING_HELPERS.has(name) || !helpers.has(name);
+                    visitProgram(block.program, changesScope
+                        ? [...scopes, { kind: 'item', blockParams: block.program.blockParams ?? [] }]
+                        : scopes);
+                    visitProgram(block.inverse, scopes);
+                    break;
+                }
+                case 'PartialStatement':
+                case 'PartialBlockStatement': {
+                    const partial = statement as hbs.AST.PartialStatement;
+                    if (partial.name.type === 'PathExpression') {
+                        const name = (partial.name as hbs.AST.PathExpression).original;
+                        addUnique(references.partials, name);
+                        if (!partials.has(name)) {
+                            report(`Unknown partial "${name}"`, partial);
+                        }
+                    }
+                    partial.params.forEach((param) => visitExpression(param, scopes));
+                    break;
+                }
+            }
+        }
+    };
+
+    visitProgram(program, [{ kind: 'root', blockParams: [] }]);
+
+    return { references, issues };
+}
+
+/**
+ * Check that every template and asset each registered generator can ask for exists in one of its layers
+ * Generators are asked for their files across build systems, module formats, CI providers
+ * and package types, with every optional feature turned on
+ */
+export async function lintGeneratorTemplates(overrideRoots: string[] = []): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+
+    for (const generator of registry.getAll()) {
+        const roots = [...overrideRoots, ...registry.getTemplateRoots(generator.meta.id)];
+        const templates = new Map<string, string>();
+        const assets = new Map<string, string>();
+
+        for (const config of getSampleConfigs(generator)) {
+            for (const file of generator.getFiles(config)) {
+                const found = file.copy ? assets : file.isTemplate ? templates : undefined;
+                if (found && !found.has(file.template)) {
+                    found.set(file.template, file.path);
+                }
+            }
+        }
+
+        for (const [template, outputPath] of templates) {
+            if (!await templateEngine.resolveTemplate(template, roots)) {
+                issues.push({
+                    severity: 'error',
+                    category: 'templates',
+                    message: `Generator "${generator.meta.id}" uses missing template "${template}" for ${outputPath}`,
+                    file: template,
+                });
+            }
+        }
+
+        for (const [asset, outputPath] of assets) {
+            if ((await templateEngine.resolveAssets(asset, roots)).size === 0) {
+                issues.push({
+                    severity: 'error',
+                    category: 'templates',
+                    message: `Generator "${generator.meta.id}" copies "${asset}" for ${outputPath}, but no file matches it`,
+                    file: asset,
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Get the top-level names available to templates: every config field plus everything
+ * each registered generator, or the workspace root, adds to the context
+ */
+export function getKnownVariables(): Set<string> {
+    const known = new Set<string>(Object.keys(CONFIG_FIELDS));
+
+    for (const generator of registry.getAll()) {
+        for (const config of getSampleConfigs(generator)) {
+            Object.keys(buildTemplateContext(config, generator)).forEach((key) => known.add(key));
+        }
+    }
+
+    // Workspace root templates
+    const workspace = buildWorkspaceContext({
+        name: 'lint-sample',
+        description: 'Template lint sample',
+        packageManager: 'npm',
+        license: 'MIT',
+        author: 'scaffold-kit',
+        outDir: '.',
+        packages: [],
+    });
+    Object.keys(workspace).forEach((key) => known.add(key));
+
+    return known;
+}
+
+/**
+ * Sample configs covering the options that change a generator's files and context
+ */
+function getSampleConfigs(generator: Generator): GeneratorConfig[] {
+    const configs: GeneratorConfig[] = [];
+
+    for (const packageType of generator.meta.supportedPackageTypes) {
+        for (const buildSystem of BUILD_SYSTEMS) {
+            for (const moduleFormat of MODULE_FORMATS) {
+                for (const ciProvider of CI_PROVIDERS) {
+                    configs.push({
+                        name: 'lint-sample',
+                        description: 'Template lint sample',
+                        packageType,
+                        runtimeTarget: generator.meta.supportedRuntimeTargets[0],
+                        moduleFormat,
+                        buildSystem,
+                        packageManager: 'npm',
+                        license: 'MIT',
+                        author: 'scaffold-kit',
+                        outDir: '.',
+                        includeExample: true,
+                        ciProvider,
+                        includeHusky: true,
+                        includeCommitlint: true,
+                        includeSemanticRelease: true,
+                        includeChangesets: true,
+                        includeStorybook: true,
+                    });
+                }
+            }
+        }
+    }
+
+    return configs;
+}
@@ -0,0 +1,222 @@
+/**
+ * File Transaction
+ * Stages generated files in a temporary directory and moves them into place only on success,
+ * together with any removals
+ * Rollback is synchronous so it can also run from a SIGINT handler
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { RenderedFile } from '../types/index.js';
+
+/**
+ * Options for a file transaction
+ */
+export interface FileTransactionOptions {
+    /** Called on Ctrl+C after rolling back, before the process exits */
+    onInterrupt?: () => void;
+}
+
+/**
+ * Transactional writer for a set of rendered files
+ */
+export class FileTransaction {
+    private readonly targetDir: string;
+    private stagingDir: string | null = null;
+    private backupDir: string | null = null;
+
+    /** Paths created in the target directory by commit (files, directories, or the target itself) */
+    private created: string[] = [];
+
+    /** Existing files replaced or removed by commit, with where their original was backed up */
+    private replaced: Array<{ target: string; backup: string }> = [];
+
+    /** Files to remove from the target on commit, relative to it */
+    private removals: string[] = [];
+
+    private readonly onInterrupt: () => void;
+
+    constructor(targetDir: string, options: FileTransactionOptions = {}) {
+        this.targetDir = path.resolve(targetDir);
+        this.onInterrupt = () => {
+            this.rollback();
+            options.onInterrupt?.();
+            process.exit(130);
+        };
+    }
+
+    /**
+     * Write files into a staging directory next to the target, under a subdirectory if given
+     * Staging on the same filesystem keeps the final rename atomic
+     * From the first call until dispose, Ctrl+C rolls the transaction back
+     */
+    async stage(files: RenderedFile[], subdir = ''): Promise<void> {
+        const stagingDir = await this.ensureStagingDir();
+
+        for (const file of files) {
+            const stagedPath = path.join(stagingDir, subdir, file.path);
+            try {
+                await fs.ensureDir(path.dirname(stagedPath));
+                await fs.writeFile(stagedPath, Buffer.from(file.content, file.encoding ?? 'utf-8'));
+                if (file.mode !== undefined) {
+                    await fs.chmod(stagedPath, file.mode);
+                }
+            } catch (error) {
+                throw new Error(`Failed to write ${file.path}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    /**
+     * Mark files for removal from the target directory on commit, under a subdirectory if given
+     * A removed file is backed up like a replaced one, so rollback restores it
+     */
+    async remove(filePaths: string[], subdir = ''): Promise<void> {
+        await this.ensureStagingDir();
+        this.removals.push(...filePaths.map((filePath) => path.join(subdir, filePath)));
+    }
+
+    /**
+     * Move staged files into the target directory, then remove the files marked for removal
+     */
+    async commit(): Promise<void> {
+        if (!this.stagingDir) {
+            throw new Error('Nothing staged to commit');
+        }
+
+        if (!await fs.pathExists(this.targetDir)) {
+            // Fresh target: a single atomic rename
+            await fs.rename(this.stagingDir, this.targetDir);
+            this.created.push(this.targetDir);
+            this.stagingDir = null;
+            return;
+        }
+
+        // Existing target: move files one by one, backing up anything replaced
+        this.backupDir = await fs.mkdtemp(path.join(path.dirname(this.targetDir), `.${path.basename(this.targetDir)}-backup-`));
+
+        for (const relativePath of await listFiles(this.stagingDir)) {
+            const stagedPath = path.join(this.stagingDir, relativePath);
+            const targetPath = path.join(this.targetDir, relativePath);
+
+            try {
+                await this.ensureTargetDir(path.dirname(targetPath));
+
+                if (await fs.pathExists(targetPath)) {
+                    const backupPath = path.join(this.backupDir, relativePath);
+                    await fs.move(targetPath, backupPath);
+                    this.replaced.push({ target: targetPath, backup: backupPath });
+                } else {
+                    this.created.push(targetPath);
+                }
+
+                await fs.move(stagedPath, targetPath);
+            } catch (error) {
+                throw new Error(`Failed to write ${relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        for (const relativePath of this.removals) {
+            const targetPath = path.join(this.targetDir, relativePath);
+
+            try {
+                if (await fs.pathExists(targetPath)) {
+                    const backupPath = path.join(this.backupDir, relativePath);
+                    await fs.move(targetPath, backupPath);
+                    this.replaced.push({ target: targetPath, backup: backupPath });
+                }
+            } catch (error) {
+                throw new Error(`Failed to remove ${relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    /**
+     * Undo everything written so far and remove temporary directories
+     */
+    rollback(): void {
+        // Newest first, so files are removed before the directories that hold them
+        for (const createdPath of [...this.created].reverse()) {
+            fs.removeSync(createdPath);
+        }
+
+        for (const { target, backup } of this.replaced) {
+            fs.moveSync(backup, target, { overwrite: true });
+        }
+
+        this.created = [];
+        this.replaced = [];
+        this.removals = [];
+        this.dispose();
+    }
+
+    /**
+     * Remove temporary directories and the Ctrl+C handler
+     * After a successful commit this discards the backups of replaced files
+     */
+    dispose(): void {
+        process.removeListener('SIGINT', this.onInterrupt);
+        if (this.stagingDir) {
+            fs.removeSync(this.stagingDir);
+            this.stagingDir = null;
+        }
+        if (this.backupDir) {
+            fs.removeSync(this.backupDir);
+            this.backupDir = null;
+        }
+    }
+
+    /**
+     * Create the staging directory next to the target on first use
+     */
+    private async ensureStagingDir(): Promise<string> {
+        if (!this.stagingDir) {
+            const parent = path.dirname(this.targetDir);
+            await fs.ensureDir(parent);
+
+            // Not mkdtemp: its 0700 mode would carry over to a fresh target renamed from the staging directory
+            const stagingDir = path.join(parent, `.${path.basename(this.targetDir)}-staging-${randomBytes(4).toString('hex')}`);
+            await fs.mkdir(stagingDir);
+            this.stagingDir = stagingDir;
+            process.once('SIGINT', this.onInterrupt);
+        }
+
+        return this.stagingDir;
+    }
+
+    /**
+     * Create a directory inside the target, recording each directory created
+     */
+    private async ensureTargetDir(dir: string): Promise<void> {
+        const missing: string[] = [];
+        let current = dir;
+
+        while (!await fs.pathExists(current)) {
+            missing.unshift(current);
+            current = path.dirname(current);
+        }
+
+        for (const missingDir of missing) {
+            await fs.mkdir(missingDir);
+            this.created.push(missingDir);
+        }
+    }
+}
+
+/**
+ * List all files in a directory recursively, relative to it
+ */
+async function listFiles(dir: string, base = dir): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await listFiles(fullPath, base));
+        } else {
+            files.push(path.relative(base, fullPath));
+        }
+    }
+
+    return files;
+}
@@ -10,8 +10,10 @@ import type {
     ValidationIssue,
     CheckCategory,
     CheckResult,
+    GenerationManifest,
 } from '../types/index.js';
 import { logger } from './logger.js';
+import { readManifest } from './manifest.js';
 
 /**
  * Validator class for checking package correctness
@@ -19,6 +21,7 @@ import { logger } from './logger.js';
 export class PackageValidator {
     private packagePath: string;
     private packageJson: Record<string, unknown> | null = null;
+    private manifest: GenerationManifest | null = null;
 
     constructor(packagePath: string) {
         this.packagePath = packagePath;
@@ -30,8 +33,9 @@ export class PackageValidator {
     async validateAll(): Promise<CheckResult[]> {
         const results: CheckResult[] = [];
 
-        // Load package.json
+        // Load package.json, and the generation manifest if there is one
         await this.loadPackageJson();
+        this.manifest = await readManifest(this.packagePath);
 
         if (!this.packageJson) {
             return [{
@@ -55,6 +59,7 @@ export class PackageValidator {
             'peerDeps',
             'deprecated',
             'buildOutput',
+            'bin',
         ];
 
         for (const category of checks) {
@@ -92,6 +97,8 @@ export class PackageValidator {
                 return this.checkDeprecated();
             case 'buildOutput':
                 return this.checkBuildOutput();
+            case 'bin':
+                return this.checkBin();
             default:
                 return [];
         }
@@ -152,6 +159,17 @@ export class PackageValidator {
                 });
             }
 
+            // Dual packages need an entry for CommonJS consumers
+            if (this.manifest?.config.moduleFormat === 'dual' && !mainExport.require) {
+                issues.push({
+                    severity: 'warning',
+                    category: 'exports',
+                    message: 'Package was generated as dual ESM + CJS but the main export has no "require" entry',
+                    suggestion: 'Add a "require" entry pointing to the CommonJS build',
+                    jsonPath: 'exports["."].require',
+                });
+            }
+
             // Check for import/default
             if (!mainExport.import && !mainExport.default) {
                 issues.push({
@@ -240,17 +258,39 @@ export class PackageValidator {
 
     /**
      * Check sideEffects configuration
+     * Stylesheets are imported only for their side effects, so a package shipping CSS has to list them
      */
-    private checkSideEffects(): ValidationIssue[] {
+    private async checkSideEffects(): Promise<ValidationIssue[]> {
         const issues: ValidationIssue[] = [];
         const pkg = this.packageJson!;
+        const stylesheets = await this.findStylesheets();
 
         if (pkg.sideEffects === undefined) {
             issues.push({
                 severity: 'warning',
                 category: 'sideEffects',
                 message: 'No "sideEffects" field in package.json',
-                suggestion: 'Add "sideEffects": false for tree-shaking optimization, or list files with side effects',
+                suggestion: stylesheets.length > 0
+                    ? 'Add "sideEffects": ["**/*.css"] so bundlers tree-shake the code but keep the stylesheets'
+                    : 'Add "sideEffects": false for tree-shaking optimization, or list files with side effects',
+                jsonPath: 'sideEffects',
+            });
+            return issues;
+        }
+
+        const patterns = Array.isArray(pkg.sideEffects) ? pkg.sideEffects.filter((p): p is string => typeof p === 'string') : [];
+        const dropped = pkg.sideEffects === true
+            ? []
+            : stylesheets.filter((file) => !patterns.some((pattern) => matchesSideEffectsPattern(file, pattern)));
+
+        if (dropped.length > 0) {
+            issues.push({
+                severity: 'error',
+                category: 'sideEffects',
+                message: `Stylesheets not covered by "sideEffects" are dropped by bundlers when imported: ${dropped.join(', ')}`,
+                suggestion: Array.isArray(pkg.sideEffects)
+                    ? 'Add "**/*.css" to "sideEffects"'
+                    : 'Use "sideEffects": ["**/*.css"] instead of false',
                 jsonPath: 'sideEffects',
             });
         }
@@ -258,6 +298,35 @@ export class PackageValidator {
         return issues;
     }
 
+    /**
+     * Find the stylesheets the package ships: those it exports, its "style" field, and any built into dist
+     */
+    private async findStylesheets(): Promise<string[]> {
+        const pkg = this.packageJson!;
+        const stylesheets = new Set<string>();
+
+        const collect = (value: unknown): void => {
+            if (typeof value === 'string') {
+                if (value.endsWith('.css') && !value.includes('*')) {
+                    stylesheets.add(path.posix.normalize(value));
+                }
+            } else if (value && typeof value === 'object') {
+                Object.values(value).forEach(collect);
+            }
+        };
+        collect(pkg.exports);
+        collect(pkg.style);
+
+        const distPath = path.join(this.packagePath, 'dist');
+        if (await fs.pathExists(distPath)) {
+            for (const file of await glob('**/*.css', { cwd: distPath, posix: true })) {
+                stylesheets.add(`dist/${file}`);
+            }
+        }
+
+        return Array.from(stylesheets).sort();
+    }
+
     /**
      * Check tree-shaking compatibility
      */
@@ -276,8 +345,8 @@ export class PackageValidator {
             });
         }
 
-        // Check type field
-        if (pkg.type !== 'module') {
+        // Check type field (CommonJS-only packages are deliberately not "module")
+        if (pkg.type !== 'module' && this.manifest?.config.moduleFormat !== 'cjs') {
             issues.push({
                 severity: 'info',
                 category: 'treeShaking',
@@ -445,6 +514,96 @@ export class PackageValidator {
 
         return issues;
     }
+
+    /**
+     * Check that every bin target can be run directly: a shebang and the executable bit
+     */
+    private async checkBin(): Promise<ValidationIssue[]> {
+        const issues: ValidationIssue[] = [];
+        const bin = this.packageJson!.bin;
+
+        if (!bin) {
+            return issues;
+        }
+
+        const pkgName = String(this.packageJson!.name || '').replace(/^@[^/]+\//, '');
+        const targets: Record<string, unknown> = typeof bin === 'string' ? { [pkgName]: bin } : bin as Record<string, unknown>;
+
+        for (const [name, target] of Object.entries(targets)) {
+            if (typeof target !== 'string') {
+                issues.push({
+                    severity: 'error',
+                    category: 'bin',
+                    message: `bin "${name}" must be a path`,
+                });
+                continue;
+            }
+
+            const targetPath = path.join(this.packagePath, target);
+            if (!await fs.pathExists(targetPath)) {
+                issues.push({
+                    severity: 'warning',
+                    category: 'bin',
+                    message: `bin "${name}" points to missing file ${target}`,
+                    suggestion: 'Run the build command to generate it',
+                    file: target,
+                });
+                continue;
+            }
+
+            const firstLine = (await fs.readFile(targetPath, 'utf-8')).split('\n', 1)[0];
+            if (!firstLine.startsWith('#!')) {
+                issues.push({
+                    severity: 'warning',
+                    category: 'bin',
+                    message: `bin "${name}" (${target}) has no shebang line`,
+                    suggestion: 'Start the file with "#!/usr/bin/env node"',
+                    file: target,
+                });
+            }
+
+            // Windows has no executable bit
+            if (process.platform !== 'win32' && ((await fs.stat(targetPath)).mode & 0o111) === 0) {
+                issues.push({
+                    severity: 'warning',
+                    category: 'bin',
+                    message: `bin "${name}" (${target}) is not executable`,
+                    suggestion: `Run "chmod +x ${target}"`,
+                    file: target,
+                });
+            }
+        }
+
+        return issues;
+    }
+}
+
+/**
+ * Whether a "sideEffects" pattern covers a file
+ * Like bundlers, a pattern without a slash matches the file name in any directory
+ */
+function matchesSideEffectsPattern(file: string, pattern: string): boolean {
+    const normalized = path.posix.normalize(pattern);
+    const target = normalized.includes('/') ? file : path.posix.basename(file);
+    const source = normalized
+        .split(/(\*\*\/|\*\*|\*|\?)/)
+        .map((part) => {
+            switch (part) {
+                case '**/':
+                    return '(?:.*/)?';
+                case '**':
+                    return '.*';
+                case '*':
+                    return '[^/]*';
+                case '?':
+                    return '[^/]';
+                default:
+                    return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            }
+        })
+        .join('');
+
+    return new RegExp(`^${source}$`).test(target);
 }
 
 /**
@@ -0,0 +1,226 @@
+/**
+ * Version Catalog
+ * The dependency versions generated packages get, kept in one place
+ * Generators and presets look versions up here; the "versions" and "peerRanges" sections of
+ * scaffold config override them, user config first and project config over it
+ */
+import type { ConfigLayer } from './config.js';
+
+/**
+ * Marks a preset dependency whose version comes from the catalog, e.g. { "husky": "catalog:" }
+ */
+export const CATALOG_PROTOCOL = 'catalog:';
+
+/**
+ * Versions of dependencies and dev dependencies
+ */
+export const DEFAULT_VERSIONS: Record<string, string> = {
+    // Language and types
+    'typescript': '^5.7.0',
+    '@types/node': '^22.10.0',
+    'tslib': '^2.8.0',
+
+    // Build systems
+    'tsup': '^8.3.0',
+    'vite': '^6.0.0',
+    'vite-plugin-dts': '^4.3.0',
+    'rollup': '^4.28.0',
+    '@rollup/plugin-typescript': '^12.1.0',
+    '@rollup/plugin-node-resolve': '^16.0.0',
+    'unbuild': '^3.0.0',
+    'esbuild': '^0.24.0',
+
+    // Testing
+    'vitest': '^2.1.0',
+    'jsdom': '^25.0.0',
+    'happy-dom': '^15.11.0',
+    '@testing-library/jest-dom': '^6.6.0',
+    '@testing-library/react': '^16.1.0',
+    '@testing-library/vue': '^8.1.0',
+    '@testing-library/svelte': '^5.2.0',
+    '@vue/test-utils': '^2.4.0',
+
+    // Linting and formatting
+    'eslint': '^9.17.0',
+    '@eslint/js': '^9.17.0',
+    'typescript-eslint': '^8.18.0',
+    'globals': '^15.0.0',
+    'eslint-plugin-react': '^7.37.0',
+    'eslint-plugin-react-hooks': '^5.1.0',
+    'eslint-plugin-vue': '^9.32.0',
+    'eslint-plugin-svelte': '^2.46.0',
+    'prettier': '^3.4.0',
+
+    // Frameworks
+    '@types/react': '^18.0.0',
+    '@types/react-dom': '^18.0.0',
+    '@vitejs/plugin-react': '^4.3.0',
+    '@vitejs/plugin-vue': '^5.2.0',
+    'vue-tsc': '^2.2.0',
+    'svelte': '^5.0.0',
+    'svelte-check': '^4.1.0',
+    'svelte-preprocess': '^6.0.0',
+    '@sveltejs/package': '^2.3.0',
+    '@sveltejs/vite-plugin-svelte': '^5.0.0',
+    'rollup-plugin-svelte': '^7.2.0',
+
+    // Styling
+    'postcss': '^8.4.0',
+    'rollup-plugin-postcss': '^4.0.2',
+    'tailwindcss': '^4.0.0',
+    '@tailwindcss/cli': '^4.0.0',
+    '@vanilla-extract/css': '^1.17.0',
+    '@vanilla-extract/vite-plugin': '^4.0.0',
+    '@vanilla-extract/esbuild-plugin': '^2.3.0',
+    '@vanilla-extract/rollup-plugin': '^1.3.0',
+
+    // CLI
+    'commander': '^12.1.0',
+    'chalk': '^5.3.0',
+    '@inquirer/prompts': '^7.2.0',
+    'ora': '^8.1.0',
+
+    // Workflow
+    'husky': '^9.1.0',
+    'lint-staged': '^15.3.0',
+    '@commitlint/cli': '^19.6.0',
+    '@commitlint/config-conventional': '^19.6.0',
+    'semantic-release': '^24.2.0',
+    '@changesets/cli': '^2.27.0',
+
+    // Storybook
+    'storybook': '^8.5.0',
+    '@storybook/addon-essentials': '^8.5.0',
+    '@storybook/addon-interactions': '^8.5.0',
+    '@storybook/addon-a11y': '^8.5.0',
+    '@storybook/test': '^8.5.0',
+};
+
+/**
+ * Ranges generated packages accept for their peer dependencies
+ * Usually wider than the version they develop against
+ */
+export const DEFAULT_PEER_RANGES: Record<string, string> = {
+    'react': '^18.0.0 || ^19.0.0',
+    'react-dom': '^18.0.0 || ^19.0.0',
+    'vue': '^3.4.0',
+    'svelte': '^4.0.0 || ^5.0.0',
+};
+
+/**
+ * A catalog entry, for listing
+ */
+export interface CatalogEntry {
+    name: string;
+    kind: 'version' | 'peerRange';
+    /** Version or range in effect */
+    version: string;
+    /** Built-in version or range, if the package has one */
+    defaultVersion?: string;
+    /** Config file the version comes from, when overridden */
+    source?: string;
+}
+
+/**
+ * Dependency version catalog
+ */
+export class VersionCatalog {
+    private versions = new Map<string, string>();
+    private peerRanges = new Map<string, string>();
+    private sources = new Map<string, string>();
+
+    constructor() {
+        this.reset();
+    }
+
+    /**
+     * Apply the "versions" and "peerRanges" sections of scaffold config layers, in load order
+     * Overrides may also add packages the catalog doesn't have
+     */
+    applyOverrides(layers: ConfigLayer[]): void {
+        for (const layer of layers) {
+            for (const [name, version] of Object.entries(layer.config.versions || {})) {
+                this.versions.set(name, version);
+                this.sources.set(`version:${name}`, layer.file);
+            }
+            for (const [name, range] of Object.entries(layer.config.peerRanges || {})) {
+                this.peerRanges.set(name, range);
+                this.sources.set(`peerRange:${name}`, layer.file);
+            }
+        }
+    }
+
+    /**
+     * Drop all overrides
+     */
+    reset(): void {
+        this.versions = new Map(Object.entries(DEFAULT_VERSIONS));
+        this.peerRanges = new Map(Object.entries(DEFAULT_PEER_RANGES));
+        this.sources.clear();
+    }
+
+    /**
+     * Check whether the catalog has a version for a package
+     */
+    has(name: string): boolean {
+        return this.versions.has(name);
+    }
+
+    /**
+     * Get the version of a dependency or dev dependency
+     */
+    getVersion(name: string): string {
+        const version = this.versions.get(name);
+        if (version === undefined) {
+            throw new Error(`"${name}" is not in the version catalog. Add it to "versions" in scaffold config.`);
+        }
+        return version;
+    }
+
+    /**
+     * Get the range of a peer dependency
+     */
+    getPeerRange(name: string): string {
+        const range = this.peerRanges.get(name);
+        if (range === undefined) {
+            throw new Error(`"${name}" has no peer range in the version catalog. Add it to "peerRanges" in scaffold config.`);
+        }
+        return range;
+    }
+
+    /**
+     * Replace "catalog:" versions in a dependency map with the catalog's
+     */
+    resolve(dependencies: Record<string, string>): Record<string, string> {
+        return Object.fromEntries(
+            Object.entries(dependencies).map(([name, version]) => [
+                name,
+                version === CATALOG_PROTOCOL ? this.getVersion(name) : version,
+            ])
+        );
+    }
+
+    /**
+     * List every entry, versions first, each sorted by name
+     */
+    getEntries(): CatalogEntry[] {
+        const list = (kind: CatalogEntry['kind'], entries: Map<string, string>, defaults: Record<string, string>) =>
+            Array.from(entries.keys()).sort().map((name): CatalogEntry => ({
+                name,
+                kind,
+                version: entries.get(name)!,
+                defaultVersion: defaults[name],
+                source: this.sources.get(`${kind}:${name}`),
+            }));
+
+        return [
+            ...list('version', this.versions, DEFAULT_VERSIONS),
+            ...list('peerRange', this.peerRanges, DEFAULT_PEER_RANGES),
+        ];
+    }
+}
+
+/**
+ * Global version catalog
+ */
+export const versionCatalog = new VersionCatalog();
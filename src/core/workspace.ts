@@ -0,0 +1,735 @@
+/**
+ * Workspace Generation
+ * Generates a monorepo root (workspace config, shared tsconfig and lint config, root scripts)
+ * and runs the framework generators into its packages, wiring internal dependencies
+ * Also finds an existing workspace around the current directory, so a single package created
+ * inside it joins the workspace instead of standing alone
+ */
+import path from 'path';
+import fs from 'fs-extra';
+import ora from 'ora';
+import type {
+    FormattingOptions,
+    Framework,
+    GeneratorResult,
+    PackageManager,
+    RenderedFile,
+    WizardAnswers,
+    WorkspaceConfig,
+    WorkspaceMembership,
+    WorkspacePackage,
+    WorkspacePackageSpec,
+    WorkspaceTemplateContext,
+} from '../types/index.js';
+import { registry } from './registry.js';
+import { templateEngine } from './template-engine.js';
+import { preparePackage, type PreparedPackage } from './generator.js';
+import { FileTransaction } from './transaction.js';
+import { applyAnswerDefaults } from './answers.js';
+import { compareWithDirectory } from './preview.js';
+import { formatContent, getFormattingOptions } from './formatting.js';
+import { getInstallCommand, getRunCommand } from './post-generate.js';
+import { getOverrideLayers } from './template-layers.js';
+import { versionCatalog } from './versions.js';
+import { CLI_VERSION, PACKAGE_MANAGERS } from './constants.js';
+
+/**
+ * Directory packages are generated into
+ */
+export const WORKSPACE_PACKAGES_DIR = 'packages';
+
+/**
+ * Scripts the root package.json runs across every package
+ */
+const WORKSPACE_SCRIPTS = ['build', 'test', 'lint', 'typecheck'];
+
+/**
+ * Options for workspace generation
+ */
+export interface GenerateWorkspaceOptions {
+    /** Render everything into memory without writing to disk */
+    dryRun?: boolean;
+
+    /** How to treat files that already exist, as for a single package */
+    existing?: 'overwrite' | 'merge';
+}
+
+/**
+ * A workspace found around a directory
+ */
+export interface DetectedWorkspace {
+    /** Absolute path of the workspace root */
+    root: string;
+
+    /** File the package globs are declared in */
+    configFile: 'pnpm-workspace.yaml' | 'package.json';
+
+    /** Package globs, without exclusions */
+    globs: string[];
+
+    /** Package manager, from pnpm-workspace.yaml, the packageManager field or a lockfile */
+    packageManager?: PackageManager;
+}
+
+/**
+ * Where a package created inside a detected workspace goes
+ */
+export interface WorkspacePlacement {
+    /** Package directory, relative to the workspace root */
+    dir: string;
+
+    /** Whether no workspace glob covers the directory, so it has to be listed */
+    unlisted: boolean;
+}
+
+/**
+ * Parse a package given on the command line: <name>:<framework>[:<dependency>+<dependency>...]
+ */
+export function parseWorkspacePackageSpec(spec: string): WorkspacePackageSpec {
+    const [name, framework, dependsOn, ...rest] = spec.split(':');
+
+    if (!name || !framework || rest.length > 0) {
+        throw new Error(`Invalid package "${spec}". Use <name>:<framework>, optionally followed by :<dependency>+<dependency>`);
+    }
+
+    return {
+        name,
+        framework: framework as Framework,
+        dependsOn: dependsOn ? dependsOn.split('+').filter(Boolean) : undefined,
+    };
+}
+
+/**
+ * Get the package name for a workspace package
+ * A scoped workspace name lends its scope to unscoped package names
+ */
+export function getWorkspacePackageName(workspaceName: string, name: string): string {
+    if (name.startsWith('@')) {
+        return name;
+    }
+    const scope = workspaceName.match(/^(@[^/]+)\//)?.[1];
+    return scope ? `${scope}/${name}` : name;
+}
+
+/**
+ * Get the directory a workspace package is generated into, relative to the root
+ */
+export function getWorkspacePackageDir(name: string): string {
+    return `${WORKSPACE_PACKAGES_DIR}/${name.replace(/^@[^/]+\//, '')}`;
+}
+
+/**
+ * Get the range a package manager links a workspace package by
+ * npm has no workspace: protocol; any version matches the local package
+ */
+export function getWorkspaceProtocol(pm: PackageManager): string {
+    return pm === 'npm' ? '*' : 'workspace:*';
+}
+
+/**
+ * Get the command that runs a script in every workspace package
+ */
+export function getWorkspaceRunCommand(pm: PackageManager, script: string): string {
+    switch (pm) {
+        case 'pnpm':
+            return `pnpm -r ${script}`;
+        case 'yarn':
+            return `yarn workspaces foreach -At run ${script}`;
+        case 'bun':
+            return `bun run --filter '*' ${script}`;
+        default:
+            return `npm run ${script} --workspaces --if-present`;
+    }
+}
+
+/**
+ * Turn package specs into package configs, dependencies first
+ * Packages share the workspace's package manager, license, author and repository, plus any
+ * shared answers given (build system, module format, runtime target, example app);
+ * everything else defaults per generator
+ * Throws on unknown frameworks or dependencies, duplicate directories and dependency cycles
+ */
+export function resolveWorkspacePackages(
+    workspace: Omit<WorkspaceConfig, 'packages'>,
+    specs: WorkspacePackageSpec[],
+    shared: Partial<WizardAnswers> = {}
+): WorkspacePackage[] {
+    const byName = new Map<string, WorkspacePackageSpec>();
+    const dirs = new Set<string>();
+
+    for (const spec of specs) {
+        const dir = getWorkspacePackageDir(spec.name);
+        if (dirs.has(dir)) {
+            throw new Error(`More than one package would be generated into ${dir}`);
+        }
+        if (!registry.hasFramework(spec.framework)) {
+            throw new Error(`Package "${spec.name}" uses framework "${spec.framework}", which no generator supports`);
+        }
+        dirs.add(dir);
+        byName.set(spec.name, spec);
+    }
+
+    const packages: WorkspacePackage[] = [];
+    const done = new Set<string>();
+    const visiting = new Set<string>();
+
+    const visit = (spec: WorkspacePackageSpec): void => {
+        if (done.has(spec.name)) {
+            return;
+        }
+        if (visiting.has(spec.name)) {
+            throw new Error(`Packages "${Array.from(visiting).join('", "')}" depend on each other in a cycle`);
+        }
+        visiting.add(spec.name);
+
+        const dependencies: Record<string, string> = {};
+        for (const dependency of spec.dependsOn || []) {
+            const target = byName.get(dependency);
+            if (!target) {
+                throw new Error(`Package "${spec.name}" depends on "${dependency}", which is not in the workspace`);
+            }
+            visit(target);
+            dependencies[getWorkspacePackageName(workspace.name, target.name)] = getWorkspaceProtocol(workspace.packageManager);
+        }
+
+        visiting.delete(spec.name);
+        done.add(spec.name);
+        packages.push(createWorkspacePackage(workspace, spec, dependencies, shared));
+    };
+
+    specs.forEach(visit);
+    return packages;
+}
+
+/**
+ * Find the workspace a directory is in: the nearest ancestor, or the directory itself,
+ * with a pnpm-workspace.yaml or a package.json with "workspaces"
+ */
+export async function findWorkspaceRoot(startDir: string): Promise<DetectedWorkspace | undefined> {
+    let dir = path.resolve(startDir);
+
+    for (;;) {
+        const detected = await readWorkspaceConfig(dir);
+        if (detected) {
+            return detected;
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Pick the directory for a new package in a detected workspace
+ * Globs like "packages/*" take the package under their parent directory, preferring the one the
+ * command runs in; a workspace listing its packages one by one gets it next to the others
+ */
+export function getWorkspacePlacement(workspace: DetectedWorkspace, name: string, cwd: string): WorkspacePlacement {
+    const dirName = name.replace(/^@[^/]+\//, '');
+    const here = path.relative(workspace.root, path.resolve(cwd)).split(path.sep).join('/');
+
+    const parents = workspace.globs
+        .map((glob) => glob.replace(/^\.\//, '').match(/^([^*?{}[\]]+)\/\*{1,2}$/)?.[1])
+        .filter((parent): parent is string => parent !== undefined);
+
+    if (parents.length > 0) {
+        const parent = parents.includes(here) ? here : parents[0];
+        return { dir: path.posix.join(parent, dirName), unlisted: false };
+    }
+
+    const listed = workspace.globs
+        .filter((glob) => !/[*?{}[\]]/.test(glob))
+        .map((glob) => path.posix.dirname(glob.replace(/^\.\//, '')));
+    const parent = listed.includes(here) ? here : listed[0] ?? WORKSPACE_PACKAGES_DIR;
+
+    return { dir: path.posix.join(parent, dirName), unlisted: true };
+}
+
+/**
+ * Work out how a package placed in a detected workspace builds on the root
+ * It extends the root's shared tsconfig and lint config when the root has them, and is referenced
+ * from the root tsconfig.json unless that file can't be read to add the reference
+ */
+export async function getWorkspaceMembership(workspace: DetectedWorkspace, dir: string): Promise<WorkspaceMembership> {
+    const root = path.posix.relative(dir, '.');
+    const rootTsconfig = await readRootTsconfig(workspace.root);
+
+    // A solution-style tsconfig.json only lists references, so there's nothing to extend
+    let tsconfig: string | undefined;
+    if (await fs.pathExists(path.join(workspace.root, 'tsconfig.base.json'))) {
+        tsconfig = 'tsconfig.base.json';
+    } else if (rootTsconfig !== undefined && !isSolutionTsconfig(rootTsconfig ?? {})) {
+        tsconfig = 'tsconfig.json';
+    }
+
+    let eslintConfig: string | undefined;
+    for (const file of ['eslint.config.js', 'eslint.config.mjs']) {
+        if (await fs.pathExists(path.join(workspace.root, file))) {
+            eslintConfig = file;
+            break;
+        }
+    }
+
+    return {
+        root,
+        tsconfig: tsconfig && `${root}/${tsconfig}`,
+        eslintConfig: eslintConfig && `${root}/${eslintConfig}`,
+        referenced: rootTsconfig !== null,
+    };
+}
+
+/**
+ * Add a package generated into a detected workspace to the root: a project reference in
+ * tsconfig.json (created as a solution-style config if missing), and the package directory in
+ * the workspace globs when none covers it
+ * Returns the root files changed, relative to the root
+ */
+export async function registerWorkspacePackage(
+    workspace: DetectedWorkspace,
+    placement: WorkspacePlacement,
+    formatting?: FormattingOptions
+): Promise<string[]> {
+    const changed: string[] = [];
+
+    const tsconfigPath = path.join(workspace.root, 'tsconfig.json');
+    const tsconfig = await readRootTsconfig(workspace.root);
+    if (tsconfig !== null) {
+        const updated = tsconfig ?? { files: [], references: [] };
+        const references = Array.isArray(updated.references) ? updated.references as Array<{ path?: string }> : [];
+        const target = path.posix.normalize(placement.dir);
+
+        if (!references.some((r) => typeof r.path === 'string' && path.posix.normalize(r.path) === target)) {
+            updated.references = [...references, { path: `./${placement.dir}` }];
+            const content = JSON.stringify(updated, null, 2) + '\n';
+            await fs.writeFile(tsconfigPath, await formatContent(content, tsconfigPath, formatting));
+            changed.push('tsconfig.json');
+        }
+    }
+
+    if (placement.unlisted) {
+        const configPath = path.join(workspace.root, workspace.configFile);
+
+        if (workspace.configFile === 'pnpm-workspace.yaml') {
+            const content = await fs.readFile(configPath, 'utf-8');
+            await fs.writeFile(configPath, addPnpmWorkspaceGlob(content, placement.dir));
+        } else {
+            const packageJson: Record<string, unknown> = await fs.readJson(configPath);
+            getPackageJsonWorkspaces(packageJson)?.push(placement.dir);
+            const content = JSON.stringify(packageJson, null, 2) + '\n';
+            await fs.writeFile(configPath, await formatContent(content, configPath, formatting));
+        }
+        changed.push(workspace.configFile);
+    }
+
+    return changed;
+}
+
+/**
+ * Generate a workspace: the root files, then each package into its directory
+ * Everything is staged in a single transaction, so a package that fails leaves nothing written
+ */
+export async function generateWorkspace(
+    config: WorkspaceConfig,
+    options: GenerateWorkspaceOptions = {}
+): Promise<GeneratorResult> {
+    const spinner = ora();
+    const result: GeneratorResult = { success: true, files: [], warnings: [], nextSteps: [], conflicts: [] };
+    const transaction = new FileTransaction(config.outDir, {
+        onInterrupt: () => spinner.fail('Generation interrupted - no files were written'),
+    });
+    const staged: Array<{ workspacePackage: WorkspacePackage; prepared: PreparedPackage }> = [];
+
+    try {
+        spinner.start('Rendering workspace root...');
+        const root = await renderWorkspaceRoot(config);
+        spinner.succeed(`Rendered ${root.length} workspace files`);
+
+        if (options.dryRun) {
+            result.rendered = [...root];
+        } else {
+            let toWrite = root;
+            if (options.existing === 'merge') {
+                const comparisons = await compareWithDirectory(root, config.outDir);
+                toWrite = comparisons.filter((c) => c.status === 'added').map((c) => c.file);
+                result.conflicts!.push(...comparisons
+                    .filter((c) => c.status === 'changed')
+                    .map((c) => ({ path: c.file.path, existing: c.existing!, generated: c.file.content, encoding: c.file.encoding })));
+            }
+            await transaction.stage(toWrite);
+        }
+        result.files.push(...root.map((f) => f.path));
+
+        for (const workspacePackage of config.packages) {
+            const prepared = await preparePackage(
+                workspacePackage.framework,
+                workspacePackage.config,
+                { dryRun: options.dryRun, existing: options.existing, generatorId: workspacePackage.generatorId }
+            );
+
+            if (!('finish' in prepared)) {
+                transaction.rollback();
+                return { ...result, success: false, error: `${workspacePackage.dir}: ${prepared.error}` };
+            }
+
+            if (!options.dryRun) {
+                await transaction.stage(prepared.files, workspacePackage.dir);
+            }
+            staged.push({ workspacePackage, prepared });
+        }
+
+        if (!options.dryRun) {
+            spinner.start('Writing workspace...');
+            await transaction.commit();
+            spinner.succeed(`Wrote workspace to ${config.outDir}`);
+        }
+    } catch (error) {
+        transaction.rollback();
+        spinner.fail('Workspace generation failed');
+        const failure = error instanceof Error ? error : new Error(String(error));
+        for (const { prepared } of staged) {
+            await prepared.fail(failure);
+        }
+        return { ...result, success: false, error: failure.message };
+    } finally {
+        transaction.dispose();
+    }
+
+    for (const { workspacePackage, prepared } of staged) {
+        const generated = options.dryRun ? prepared.result : await prepared.finish();
+
+        const prefix = (filePath: string) => path.posix.join(workspacePackage.dir, filePath);
+        result.files.push(...generated.files.map(prefix));
+        result.warnings.push(...generated.warnings.map((w) => `${workspacePackage.dir}: ${w}`));
+        result.rendered?.push(...(generated.rendered || []).map((f) => ({ ...f, path: prefix(f.path) })));
+        result.conflicts!.push(...(generated.conflicts || []).map((c) => ({ ...c, path: prefix(c.path) })));
+    }
+
+    return result;
+}
+
+/**
+ * Build the template context for the workspace root templates
+ */
+export function buildWorkspaceContext(config: WorkspaceConfig): WorkspaceTemplateContext {
+    const { packages, ...rest } = config;
+
+    return {
+        ...rest,
+        year: new Date().getFullYear(),
+        date: new Date().toISOString().split('T')[0],
+        cliVersion: CLI_VERSION,
+        packages: packages.map((p) => ({
+            name: p.config.name,
+            dir: p.dir,
+            description: p.config.description,
+            framework: p.framework,
+        })),
+        workspaceGlobs: getWorkspaceGlobs(config),
+        commands: {
+            install: getInstallCommand(config.packageManager),
+            ...Object.fromEntries(WORKSPACE_SCRIPTS.map((script) => [script, getRunCommand(config.packageManager, script)])),
+        },
+        formatting: getFormattingOptions(config),
+    };
+}
+
+/**
+ * Render the workspace root files, formatted
+ */
+async function renderWorkspaceRoot(config: WorkspaceConfig): Promise<RenderedFile[]> {
+    const context = buildWorkspaceContext(config);
+    const roots = (await getOverrideLayers()).map((layer) => layer.root);
+
+    const templates: Array<{ path: string; template: string }> = [
+        { path: 'README.md', template: 'workspace/README.md.hbs' },
+        { path: 'tsconfig.base.json', template: 'workspace/tsconfig.base.json.hbs' },
+        { path: 'eslint.config.js', template: 'workspace/eslint.config.js.hbs' },
+        { path: 'LICENSE', template: 'common/LICENSE.hbs' },
+        { path: '.gitignore', template: 'common/gitignore.hbs' },
+    ];
+
+    if (config.packageManager === 'pnpm') {
+        templates.push({ path: 'pnpm-workspace.yaml', template: 'workspace/pnpm-workspace.yaml.hbs' });
+    }
+
+    if (config.includeFormattingConfig) {
+        templates.push({ path: '.prettierrc', template: 'common/prettierrc.hbs' });
+        templates.push({ path: '.editorconfig', template: 'common/editorconfig.hbs' });
+    }
+
+    const rendered: RenderedFile[] = [];
+    for (const file of templates) {
+        const content = await templateEngine.render(file.template, context, roots);
+        rendered.push({
+            path: file.path,
+            content: await formatContent(content, path.join(config.outDir, file.path), config.formatting),
+        });
+    }
+
+    rendered.push({ path: 'package.json', content: JSON.stringify(buildWorkspacePackageJson(config), null, 2) + '\n' });
+
+    // Solution-style tsconfig so "tsc -b" builds every package, dependencies first
+    const tsconfig = { files: [], references: config.packages.map((p) => ({ path: `./${p.dir}` })) };
+    rendered.push({ path: 'tsconfig.json', content: JSON.stringify(tsconfig, null, 2) + '\n' });
+
+    return rendered;
+}
+
+/**
+ * Build the root package.json
+ */
+function buildWorkspacePackageJson(config: WorkspaceConfig): Record<string, unknown> {
+    const packageJson: Record<string, unknown> = {
+        name: config.name,
+        version: '0.0.0',
+        private: true,
+        description: config.description,
+        type: 'module',
+    };
+
+    // pnpm reads its packages from pnpm-workspace.yaml
+    if (config.packageManager !== 'pnpm') {
+        packageJson.workspaces = getWorkspaceGlobs(config);
+    }
+
+    packageJson.scripts = Object.fromEntries(
+        WORKSPACE_SCRIPTS.map((script) => [script, getWorkspaceRunCommand(config.packageManager, script)])
+    );
+    packageJson.author = config.author;
+    packageJson.license = config.license;
+
+    if (config.repository) {
+        packageJson.repository = { type: 'git', url: config.repository };
+    }
+
+    // Tools the shared configs need
+    packageJson.devDependencies = Object.fromEntries(
+        ['typescript', 'eslint', '@eslint/js', 'typescript-eslint'].map((name) => [name, versionCatalog.getVersion(name)])
+    );
+
+    return packageJson;
+}
+
+/**
+ * Get the workspace package globs
+ * npm runs workspace scripts in the order packages are listed, so it gets every package,
+ * dependencies first; the other package managers sort by dependencies themselves
+ */
+function getWorkspaceGlobs(config: WorkspaceConfig): string[] {
+    return config.packageManager === 'npm'
+        ? config.packages.map((p) => p.dir)
+        : [`${WORKSPACE_PACKAGES_DIR}/*`];
+}
+
+/**
+ * Create the config for one package, with defaults for whatever the workspace doesn't set
+ */
+function createWorkspacePackage(
+    workspace: Omit<WorkspaceConfig, 'packages'>,
+    spec: WorkspacePackageSpec,
+    dependencies: Record<string, string>,
+    shared: Partial<WizardAnswers>
+): WorkspacePackage {
+    const name = getWorkspacePackageName(workspace.name, spec.name);
+    const generator = registry.findCompatible(spec.framework, shared)[0];
+    if (!generator) {
+        throw new Error(`No ${spec.framework} generator supports the workspace's settings for package "${spec.name}"`);
+    }
+
+    const dir = getWorkspacePackageDir(spec.name);
+    const root = path.posix.relative(dir, '.');
+    const answers = applyAnswerDefaults({
+        ...shared,
+        name,
+        framework: spec.framework,
+        generator: generator.meta.id,
+    });
+
+    return {
+        generatorId: generator.meta.id,
+        framework: spec.framework,
+        dir,
+        config: {
+            name,
+            description: answers.description!,
+            packageType: answers.packageType!,
+            runtimeTarget: answers.runtimeTarget!,
+            moduleFormat: answers.moduleFormat!,
+            buildSystem: answers.buildSystem!,
+            packageManager: workspace.packageManager,
+            license: workspace.license,
+            author: workspace.author,
+            repository: workspace.repository,
+            includeExample: answers.includeExample,
+            outDir: path.join(workspace.outDir, dir),
+            formatting: workspace.formatting,
+            workspace: {
+                root,
+                tsconfig: `${root}/tsconfig.base.json`,
+                eslintConfig: `${root}/eslint.config.js`,
+                referenced: true,
+                dependencies: Object.keys(dependencies).length > 0 ? dependencies : undefined,
+            },
+        },
+    };
+}
+
+/**
+ * Read the workspace config in a directory, if it has one
+ */
+async function readWorkspaceConfig(dir: string): Promise<DetectedWorkspace | undefined> {
+    const pnpmWorkspacePath = path.join(dir, 'pnpm-workspace.yaml');
+    if (await fs.pathExists(pnpmWorkspacePath)) {
+        return {
+            root: dir,
+            configFile: 'pnpm-workspace.yaml',
+            globs: parsePnpmWorkspaceGlobs(await fs.readFile(pnpmWorkspacePath, 'utf-8')),
+            packageManager: 'pnpm',
+        };
+    }
+
+    const packageJsonPath = path.join(dir, 'package.json');
+    if (!await fs.pathExists(packageJsonPath)) {
+        return undefined;
+    }
+
+    let packageJson: Record<string, unknown>;
+    try {
+        packageJson = await fs.readJson(packageJsonPath);
+    } catch {
+        return undefined;
+    }
+
+    const globs = getPackageJsonWorkspaces(packageJson);
+    if (!globs) {
+        return undefined;
+    }
+
+    return {
+        root: dir,
+        configFile: 'package.json',
+        globs: globs.filter((glob): glob is string => typeof glob === 'string' && !glob.startsWith('!')),
+        packageManager: await detectPackageManager(dir, packageJson),
+    };
+}
+
+/**
+ * Get the "workspaces" globs of a package.json: either a list of globs, or Yarn's { packages: [...] }
+ * The array returned is the one in the package.json, so pushing to it adds a glob
+ */
+function getPackageJsonWorkspaces(packageJson: Record<string, unknown>): unknown[] | undefined {
+    const { workspaces } = packageJson;
+    if (Array.isArray(workspaces)) {
+        return workspaces;
+    }
+    if (typeof workspaces === 'object' && workspaces !== null && 'packages' in workspaces && Array.isArray(workspaces.packages)) {
+        return workspaces.packages;
+    }
+    return undefined;
+}
+
+/**
+ * Tell the package manager of a workspace from its packageManager field or its lockfile
+ */
+async function detectPackageManager(dir: string, packageJson: Record<string, unknown>): Promise<PackageManager | undefined> {
+    const declared = typeof packageJson.packageManager === 'string'
+        ? packageJson.packageManager.split('@')[0]
+        : undefined;
+    if (declared && PACKAGE_MANAGERS.includes(declared as PackageManager)) {
+        return declared as PackageManager;
+    }
+
+    const lockfiles: Array<[string, PackageManager]> = [
+        ['pnpm-lock.yaml', 'pnpm'],
+        ['yarn.lock', 'yarn'],
+        ['bun.lock', 'bun'],
+        ['bun.lockb', 'bun'],
+        ['package-lock.json', 'npm'],
+    ];
+    for (const [lockfile, pm] of lockfiles) {
+        if (await fs.pathExists(path.join(dir, lockfile))) {
+            return pm;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Read the "packages" list of a pnpm-workspace.yaml, without exclusions
+ */
+function parsePnpmWorkspaceGlobs(content: string): string[] {
+    const globs: string[] = [];
+    let inPackages = false;
+
+    for (const line of content.split('\n')) {
+        if (/^packages:\s*$/.test(line)) {
+            inPackages = true;
+            continue;
+        }
+        if (!inPackages) {
+            continue;
+        }
+
+        const item = line.match(/^\s+-\s*(['"]?)([^'"#]*?)\1\s*(#.*)?$/);
+        if (item) {
+            if (!item[2].startsWith('!')) {
+                globs.push(item[2]);
+            }
+        } else if (/^\S/.test(line)) {
+            // The next top-level key ends the list
+            inPackages = false;
+        }
+    }
+
+    return globs;
+}
+
+/**
+ * Add a directory to the "packages" list of a pnpm-workspace.yaml, after its last entry
+ */
+function addPnpmWorkspaceGlob(content: string, glob: string): string {
+    const lines = content.split('\n');
+    const start = lines.findIndex((line) => /^packages:\s*$/.test(line));
+    if (start === -1) {
+        return `${content.replace(/\n*$/, '\n')}packages:\n  - '${glob}'\n`;
+    }
+
+    let last = start;
+    for (let i = start + 1; i < lines.length && !/^\S/.test(lines[i]); i++) {
+        if (/^\s+-/.test(lines[i])) {
+            last = i;
+        }
+    }
+
+    const indent = last === start ? '  ' : lines[last].match(/^(\s+)/)![1];
+    lines.splice(last + 1, 0, `${indent}- '${glob}'`);
+    return lines.join('\n');
+}
+
+/**
+ * Read the root tsconfig.json: undefined when there is none, null when it can't be parsed
+ * (tsconfig files may have comments, which can't be kept when adding a reference)
+ */
+async function readRootTsconfig(root: string): Promise<Record<string, unknown> | undefined | null> {
+    const tsconfigPath = path.join(root, 'tsconfig.json');
+    if (!await fs.pathExists(tsconfigPath)) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(await fs.readFile(tsconfigPath, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check whether a tsconfig only lists project references
+ */
+function isSolutionTsconfig(tsconfig: Record<string, unknown>): boolean {
+    return Array.isArray(tsconfig.files) && tsconfig.files.length === 0 && Array.isArray(tsconfig.references);
+}
@@ -22,6 +22,8 @@ export function initializeGenerators(): void {
     registry.register(nodeGenerator);
 }
 
+export { loadGeneratorPlugins, validateGenerator } from './loader.js';
+
 // Export individual generators
 export { reactGenerator } from './react/index.js';
 export { vueGenerator } from './vue/index.js';
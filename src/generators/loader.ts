@@ -0,0 +1,322 @@
+/**
+ * Generator Plugin Loader
+ * Discovers generator plugins and registers them alongside the built-in generators
+ * Plugins are scaffold-generator-* packages, installed packages with a "scaffold.generators"
+ * field in their package.json, or module paths listed in scaffold config
+ * Lifecycle hooks are discovered the same way ("scaffold.hooks", or "hooks" in config)
+ * and subscribed to every generation
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { Generator, GeneratorHooks, GeneratorSource, ValidationIssue } from '../types/index.js';
+import { registry } from '../core/registry.js';
+import { loadScaffoldConfig } from '../core/config.js';
+import { logger } from '../core/logger.js';
+import { hookBus, validateHooks } from '../core/hooks.js';
+
+/**
+ * Naming convention for auto-discovered generator packages
+ */
+const GENERATOR_PACKAGE_PATTERN = /^(@[^/]+\/)?scaffold-generator-[\w.-]+$/;
+
+/**
+ * Methods every generator must implement
+ */
+const REQUIRED_METHODS = ['getDependencies', 'getExports', 'getFiles', 'getPackageJsonExtras', 'validate'] as const;
+
+/**
+ * Metadata fields every generator must provide
+ */
+const REQUIRED_META_STRINGS = ['id', 'name', 'framework', 'description', 'version', 'recommendedBuildSystem'] as const;
+const REQUIRED_META_ARRAYS = ['supportedPackageTypes', 'supportedRuntimeTargets'] as const;
+
+/**
+ * A plugin module waiting to be imported
+ */
+interface PluginEntry {
+    /** Absolute path of the module to import */
+    modulePath: string;
+    /** Directory the plugin's templates are resolved against */
+    packageRoot: string;
+    source: GeneratorSource;
+}
+
+let loaded = false;
+
+/**
+ * Load generator plugins and register them with the registry
+ * Invalid plugins are skipped; the problems found are returned
+ */
+export async function loadGeneratorPlugins(cwd: string = process.cwd()): Promise<ValidationIssue[]> {
+    if (loaded) {
+        return [];
+    }
+    loaded = true;
+
+    const issues: ValidationIssue[] = [];
+    const entries: PluginEntry[] = [];
+    const hookEntries: PluginEntry[] = [];
+    const { layers } = await loadScaffoldConfig(cwd);
+
+    const fail = (message: string, file: string, suggestion?: string) => {
+        issues.push({ severity: 'error', category: 'generators', message, file, suggestion });
+    };
+
+    // Installed packages
+    for (const packageName of await discoverGeneratorPackages(cwd)) {
+        try {
+            const packageRoot = path.dirname(resolvePackageJson(cwd, packageName));
+            const source: GeneratorSource = { kind: 'package', name: packageName };
+            entries.push(...await getPackageEntries(packageRoot, source));
+            hookEntries.push(...await getPackageHookEntries(packageRoot, source));
+        } catch (error) {
+            fail(`Failed to load generator package "${packageName}": ${describeError(error)}`, packageName);
+        }
+    }
+
+    // Paths listed in config, relative to the config file that lists them
+    for (const layer of layers) {
+        for (const pluginPath of layer.config.generators || []) {
+            const fullPath = path.resolve(path.dirname(layer.file), pluginPath);
+            const source: GeneratorSource = { kind: 'path', name: fullPath };
+
+            try {
+                if (!await fs.pathExists(fullPath)) {
+                    throw new Error('path does not exist');
+                }
+
+                if ((await fs.stat(fullPath)).isDirectory()) {
+                    entries.push(...await getPackageEntries(fullPath, source));
+                } else {
+                    entries.push({ modulePath: fullPath, packageRoot: path.dirname(fullPath), source });
+                }
+            } catch (error) {
+                fail(`Failed to load generator "${pluginPath}": ${describeError(error)}`, layer.file);
+            }
+        }
+
+        for (const hooksPath of layer.config.hooks || []) {
+            const fullPath = path.resolve(path.dirname(layer.file), hooksPath);
+            if (await fs.pathExists(fullPath)) {
+                hookEntries.push({ modulePath: fullPath, packageRoot: path.dirname(fullPath), source: { kind: 'path', name: fullPath } });
+            } else {
+                fail(`Failed to load hooks "${hooksPath}": path does not exist`, layer.file);
+            }
+        }
+    }
+
+    for (const entry of entries) {
+        let exported: unknown;
+
+        try {
+            exported = (await import(pathToFileURL(entry.modulePath).href)).default;
+        } catch (error) {
+            fail(`Failed to import generator plugin: ${describeError(error)}`, entry.modulePath);
+            continue;
+        }
+
+        if (exported === undefined) {
+            fail('Generator plugin has no default export', entry.modulePath, 'Export a generator instance, or an array of them, as the default export');
+            continue;
+        }
+
+        for (const candidate of Array.isArray(exported) ? exported : [exported]) {
+            const pluginIssues = validateGenerator(candidate, entry.modulePath);
+            issues.push(...pluginIssues);
+            if (pluginIssues.some((i) => i.severity === 'error')) {
+                continue;
+            }
+
+            const generator = candidate as Generator;
+            const existing = registry.getSource(generator.meta.id);
+
+            if (existing?.kind === 'builtin') {
+                fail(
+                    `Generator "${generator.meta.id}" conflicts with the built-in generator of the same id`,
+                    entry.modulePath,
+                    'Give the plugin generator a unique meta.id'
+                );
+                continue;
+            }
+
+            registry.register(generator, {
+                ...entry.source,
+                templatesRoot: path.resolve(entry.packageRoot, generator.templatesDir || 'templates'),
+            });
+            logger.debug(`Registered generator plugin: ${generator.meta.id} (${entry.source.name})`);
+        }
+    }
+
+    for (const entry of hookEntries) {
+        let exported: unknown;
+
+        try {
+            exported = (await import(pathToFileURL(entry.modulePath).href)).default;
+        } catch (error) {
+            fail(`Failed to import hooks: ${describeError(error)}`, entry.modulePath);
+            continue;
+        }
+
+        const problems = validateHooks(exported);
+        if (problems.length > 0) {
+            problems.forEach((problem) => fail(problem, entry.modulePath, 'Export an object of hook functions as the default export'));
+            continue;
+        }
+
+        hookBus.subscribe(exported as GeneratorHooks, entry.source.name);
+    }
+
+    return issues;
+}
+
+/**
+ * Check that a plugin export implements the Generator interface
+ */
+export function validateGenerator(candidate: unknown, source: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const error = (message: string) => issues.push({ severity: 'error', category: 'generators', message, file: source });
+
+    if (typeof candidate !== 'object' || candidate === null) {
+        error(`Generator plugin export must be a generator object, got ${typeof candidate}`);
+        return issues;
+    }
+
+    const generator = candidate as Record<string, unknown>;
+    const meta = generator.meta as Record<string, unknown> | undefined;
+
+    if (typeof meta !== 'object' || meta === null) {
+        error('Generator is missing "meta"');
+        return issues;
+    }
+
+    const label = typeof meta.id === 'string' ? `Generator "${meta.id}"` : 'Generator';
+
+    for (const field of REQUIRED_META_STRINGS) {
+        if (typeof meta[field] !== 'string' || meta[field] === '') {
+            error(`${label}: meta.${field} must be a non-empty string`);
+        }
+    }
+
+    for (const field of REQUIRED_META_ARRAYS) {
+        if (!Array.isArray(meta[field]) || (meta[field] as unknown[]).length === 0) {
+            error(`${label}: meta.${field} must be a non-empty array`);
+        }
+    }
+
+    for (const method of REQUIRED_METHODS) {
+        if (typeof generator[method] !== 'function') {
+            error(`${label}: missing method ${method}()`);
+        }
+    }
+
+    if (generator.postGenerate !== undefined && typeof generator.postGenerate !== 'function') {
+        error(`${label}: postGenerate must be a function`);
+    }
+
+    if (generator.templatesDir !== undefined && typeof generator.templatesDir !== 'string') {
+        error(`${label}: templatesDir must be a string`);
+    }
+
+    return issues;
+}
+
+/**
+ * Find installed generator packages: scaffold-generator-* packages in node_modules,
+ * and the project's dependencies that declare "scaffold.generators" or "scaffold.hooks"
+ */
+async function discoverGeneratorPackages(cwd: string): Promise<string[]> {
+    const found = new Set<string>();
+    const nodeModules = path.join(cwd, 'node_modules');
+
+    if (await fs.pathExists(nodeModules)) {
+        for (const entry of await fs.readdir(nodeModules)) {
+            if (entry.startsWith('@')) {
+                const scoped = await fs.readdir(path.join(nodeModules, entry)).catch(() => [] as string[]);
+                scoped.map((name) => `${entry}/${name}`)
+                    .filter((name) => GENERATOR_PACKAGE_PATTERN.test(name))
+                    .forEach((name) => found.add(name));
+            } else if (GENERATOR_PACKAGE_PATTERN.test(entry)) {
+                found.add(entry);
+            }
+        }
+    }
+
+    const projectPackageJson = path.join(cwd, 'package.json');
+    if (await fs.pathExists(projectPackageJson)) {
+        const pkg = await fs.readJson(projectPackageJson).catch(() => ({}));
+        for (const name of Object.keys({ ...pkg.dependencies, ...pkg.devDependencies })) {
+            if (found.has(name)) {
+                continue;
+            }
+            try {
+                const dependencyPkg = await fs.readJson(resolvePackageJson(cwd, name));
+                if (dependencyPkg.scaffold?.generators || dependencyPkg.scaffold?.hooks) {
+                    found.add(name);
+                }
+            } catch {
+                // Not installed, or doesn't expose its package.json
+            }
+        }
+    }
+
+    return Array.from(found);
+}
+
+/**
+ * Get the generator modules of a package
+ * "scaffold.generators" in package.json lists them; otherwise the package's main entry is used,
+ * unless the package only provides hooks
+ */
+async function getPackageEntries(packageRoot: string, source: GeneratorSource): Promise<PluginEntry[]> {
+    const pkg = await fs.readJson(path.join(packageRoot, 'package.json')).catch(() => ({}));
+    const declared = pkg.scaffold?.generators;
+
+    if (declared !== undefined) {
+        return getDeclaredEntries(packageRoot, source, declared, 'scaffold.generators');
+    }
+
+    if (pkg.scaffold?.hooks !== undefined) {
+        return [];
+    }
+
+    const require = createRequire(path.join(packageRoot, 'package.json'));
+    return [{ modulePath: require.resolve(packageRoot), packageRoot, source }];
+}
+
+/**
+ * Get the hook modules a package lists in "scaffold.hooks"
+ */
+async function getPackageHookEntries(packageRoot: string, source: GeneratorSource): Promise<PluginEntry[]> {
+    const pkg = await fs.readJson(path.join(packageRoot, 'package.json')).catch(() => ({}));
+    const declared = pkg.scaffold?.hooks;
+
+    return declared === undefined ? [] : getDeclaredEntries(packageRoot, source, declared, 'scaffold.hooks');
+}
+
+/**
+ * Turn a package.json field holding a path or an array of paths into plugin entries
+ */
+function getDeclaredEntries(packageRoot: string, source: GeneratorSource, declared: unknown, field: string): PluginEntry[] {
+    const modules = Array.isArray(declared) ? declared : [declared];
+    if (!modules.every((m: unknown) => typeof m === 'string')) {
+        throw new Error(`"${field}" must be a path or an array of paths`);
+    }
+    return modules.map((m: string) => ({ modulePath: path.resolve(packageRoot, m), packageRoot, source }));
+}
+
+/**
+ * Resolve the package.json of an installed package
+ */
+function resolvePackageJson(cwd: string, packageName: string): string {
+    const candidate = path.join(cwd, 'node_modules', packageName, 'package.json');
+    if (fs.existsSync(candidate)) {
+        return candidate;
+    }
+    return createRequire(path.join(cwd, 'package.json')).resolve(`${packageName}/package.json`);
+}
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -27,21 +27,18 @@ export class NodeGenerator extends BaseGenerator {
     protected getFrameworkDependencies(config: GeneratorConfig): DependencySpec[] {
         const deps: DependencySpec[] = [];
 
-        // Node.js specific types
-        deps.push(this.devDep('@types/node', '^22.10.0'));
-
         // ESLint
-        deps.push(this.devDep('eslint', '^9.17.0'));
-        deps.push(this.devDep('@eslint/js', '^9.17.0'));
-        deps.push(this.devDep('typescript-eslint', '^8.18.0'));
-        deps.push(this.devDep('globals', '^15.0.0'));
+        deps.push(this.devDep('eslint'));
+        deps.push(this.devDep('@eslint/js'));
+        deps.push(this.devDep('typescript-eslint'));
+        deps.push(this.devDep('globals'));
 
         // CLI-specific dependencies
         if (config.packageType === 'cli') {
-            deps.push(this.dep('commander', '^12.1.0'));
-            deps.push(this.dep('chalk', '^5.3.0'));
-            deps.push(this.dep('@inquirer/prompts', '^7.2.0'));
-            deps.push(this.dep('ora', '^8.1.0'));
+            deps.push(this.dep('commander'));
+            deps.push(this.dep('chalk'));
+            deps.push(this.dep('@inquirer/prompts'));
+            deps.push(this.dep('ora'));
         }
 
         return deps;
@@ -62,6 +59,7 @@ export class NodeGenerator extends BaseGenerator {
                 path: 'src/bin/cli.ts',
                 template: 'node/src/bin/cli.ts.hbs',
                 isTemplate: true,
+                mode: 0o755,
             });
 
             files.push({
@@ -140,6 +138,7 @@ export class NodeGenerator extends BaseGenerator {
                     path: 'example/demo.sh',
                     template: 'node/example/demo.sh.hbs',
                     isTemplate: true,
+                    mode: 0o755,
                 });
             } else {
                 files.push({
@@ -160,6 +159,7 @@ export class NodeGenerator extends BaseGenerator {
         if (config.packageType === 'cli') {
             exports.push({
                 path: './bin',
+                source: 'src/bin/cli.ts',
                 types: './dist/bin/cli.d.ts',
                 import: './dist/bin/cli.js',
             });
@@ -21,34 +21,35 @@ export class ReactGenerator extends BaseGenerator {
         supportedPackageTypes: ['library', 'utility', 'plugin'],
         supportedRuntimeTargets: ['browser', 'universal'],
         recommendedBuildSystem: 'tsup',
+        supportedStyling: ['css', 'css-modules', 'tailwind', 'vanilla-extract'],
     };
 
     protected getFrameworkDependencies(config: GeneratorConfig): DependencySpec[] {
         const deps: DependencySpec[] = [];
 
         // React as peer dependency
-        deps.push(this.peerDep('react', '^18.0.0 || ^19.0.0'));
-        deps.push(this.peerDep('react-dom', '^18.0.0 || ^19.0.0'));
+        deps.push(this.peerDep('react'));
+        deps.push(this.peerDep('react-dom'));
 
         // React types as dev dependency
-        deps.push(this.devDep('@types/react', '^18.0.0'));
-        deps.push(this.devDep('@types/react-dom', '^18.0.0'));
+        deps.push(this.devDep('@types/react'));
+        deps.push(this.devDep('@types/react-dom'));
 
         // Testing library
-        deps.push(this.devDep('@testing-library/react', '^16.1.0'));
-        deps.push(this.devDep('@testing-library/jest-dom', '^6.6.0'));
-        deps.push(this.devDep('jsdom', '^25.0.0'));
+        deps.push(this.devDep('@testing-library/react'));
+        deps.push(this.devDep('@testing-library/jest-dom'));
+        deps.push(this.devDep('jsdom'));
 
         // ESLint for React
-        deps.push(this.devDep('eslint', '^9.17.0'));
-        deps.push(this.devDep('@eslint/js', '^9.17.0'));
-        deps.push(this.devDep('eslint-plugin-react', '^7.37.0'));
-        deps.push(this.devDep('eslint-plugin-react-hooks', '^5.1.0'));
-        deps.push(this.devDep('globals', '^15.0.0'));
-        deps.push(this.devDep('typescript-eslint', '^8.18.0'));
+        deps.push(this.devDep('eslint'));
+        deps.push(this.devDep('@eslint/js'));
+        deps.push(this.devDep('eslint-plugin-react'));
+        deps.push(this.devDep('eslint-plugin-react-hooks'));
+        deps.push(this.devDep('globals'));
+        deps.push(this.devDep('typescript-eslint'));
 
         // Vite plugin for testing
-        deps.push(this.devDep('@vitejs/plugin-react', '^4.3.0'));
+        deps.push(this.devDep('@vitejs/plugin-react'));
 
         return deps;
     }
@@ -69,6 +70,36 @@ export class ReactGenerator extends BaseGenerator {
             isTemplate: true,
         });
 
+        // The Button's styles, unless they're inline or Tailwind classes
+        switch (config.styling) {
+            case 'css':
+                files.push({
+                    path: 'src/components/Button/Button.css',
+                    template: 'react/src/components/Button/Button.css.hbs',
+                    isTemplate: true,
+                });
+                break;
+            case 'css-modules':
+                files.push({
+                    path: 'src/components/Button/Button.module.css',
+                    template: 'react/src/components/Button/Button.module.css.hbs',
+                    isTemplate: true,
+                });
+                files.push({
+                    path: 'src/css-modules.d.ts',
+                    template: 'react/src/css-modules.d.ts.hbs',
+                    isTemplate: true,
+                });
+                break;
+            case 'vanilla-extract':
+                files.push({
+                    path: 'src/components/Button/Button.css.ts',
+                    template: 'react/src/components/Button/Button.css.ts.hbs',
+                    isTemplate: true,
+                });
+                break;
+        }
+
         files.push({
             path: 'src/components/Button/Button.test.tsx',
             template: 'react/src/components/Button/Button.test.tsx.hbs',
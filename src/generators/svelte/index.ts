@@ -21,36 +21,46 @@ export class SvelteGenerator extends BaseGenerator {
         supportedPackageTypes: ['library', 'plugin', 'utility'],
         supportedRuntimeTargets: ['browser', 'universal'],
         recommendedBuildSystem: 'vite',
+        supportedStyling: ['css', 'tailwind'],
     };
 
+    protected readonly sourceDir = 'src/lib';
+
+    /**
+     * svelte-package copies src/lib/styles.css as is, and Tailwind builds dist/styles.css
+     */
+    protected getStylesheet(_config: GeneratorConfig): string {
+        return './dist/styles.css';
+    }
+
     protected getFrameworkDependencies(config: GeneratorConfig): DependencySpec[] {
         const deps: DependencySpec[] = [];
 
         // Svelte as peer dependency
-        deps.push(this.peerDep('svelte', '^4.0.0 || ^5.0.0'));
+        deps.push(this.peerDep('svelte'));
 
         // Svelte build tools
-        deps.push(this.devDep('@sveltejs/package', '^2.3.0'));
-        deps.push(this.devDep('@sveltejs/vite-plugin-svelte', '^5.0.0'));
-        deps.push(this.devDep('svelte', '^5.0.0')); // Needed for dev
-        deps.push(this.devDep('svelte-check', '^4.1.0'));
+        deps.push(this.devDep('@sveltejs/package'));
+        deps.push(this.devDep('@sveltejs/vite-plugin-svelte'));
+        deps.push(this.devDep('svelte')); // Needed for dev
+        deps.push(this.devDep('svelte-check'));
 
         // Testing
-        deps.push(this.devDep('@testing-library/svelte', '^5.2.0'));
-        deps.push(this.devDep('@testing-library/jest-dom', '^6.6.0'));
-        deps.push(this.devDep('jsdom', '^25.0.0'));
+        deps.push(this.devDep('@testing-library/svelte'));
+        deps.push(this.devDep('@testing-library/jest-dom'));
+        deps.push(this.devDep('jsdom'));
 
         // Build Tools
-        deps.push(this.devDep('rollup-plugin-svelte', '^7.2.0'));
+        deps.push(this.devDep('rollup-plugin-svelte'));
 
         // ESLint for Svelte
-        deps.push(this.devDep('eslint', '^9.17.0'));
-        deps.push(this.devDep('@eslint/js', '^9.17.0'));
-        deps.push(this.devDep('eslint-plugin-svelte', '^2.46.0'));
-        deps.push(this.devDep('typescript-eslint', '^8.18.0'));
+        deps.push(this.devDep('eslint'));
+        deps.push(this.devDep('@eslint/js'));
+        deps.push(this.devDep('eslint-plugin-svelte'));
+        deps.push(this.devDep('typescript-eslint'));
 
         // Svelte preprocessing
-        deps.push(this.devDep('svelte-preprocess', '^6.0.0'));
+        deps.push(this.devDep('svelte-preprocess'));
 
         return deps;
     }
@@ -71,6 +81,15 @@ export class SvelteGenerator extends BaseGenerator {
             isTemplate: true,
         });
 
+        // Plain CSS moves the components' styles into a stylesheet the entry point imports
+        if (config.styling === 'css') {
+            files.push({
+                path: 'src/lib/styles.css',
+                template: 'svelte/src/lib/styles.css.hbs',
+                isTemplate: true,
+            });
+        }
+
         files.push({
             path: 'src/lib/components/Button/Button.test.ts',
             template: 'svelte/src/lib/components/Button/Button.test.ts.hbs',
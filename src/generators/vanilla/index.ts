@@ -27,16 +27,16 @@ export class VanillaGenerator extends BaseGenerator {
         const deps: DependencySpec[] = [];
 
         // ESLint
-        deps.push(this.devDep('eslint', '^9.17.0'));
-        deps.push(this.devDep('@eslint/js', '^9.17.0'));
-        deps.push(this.devDep('typescript-eslint', '^8.18.0'));
-        deps.push(this.devDep('globals', '^15.0.0'));
+        deps.push(this.devDep('eslint'));
+        deps.push(this.devDep('@eslint/js'));
+        deps.push(this.devDep('typescript-eslint'));
+        deps.push(this.devDep('globals'));
 
         // Prettier
-        deps.push(this.devDep('prettier', '^3.4.0'));
+        deps.push(this.devDep('prettier'));
 
         // Testing environment
-        deps.push(this.devDep('jsdom', '^25.0.0'));
+        deps.push(this.devDep('jsdom'));
 
         return deps;
     }
@@ -94,11 +94,14 @@ export class VanillaGenerator extends BaseGenerator {
             isTemplate: true,
         });
 
-        files.push({
-            path: '.prettierrc',
-            template: 'vanilla/.prettierrc.hbs',
-            isTemplate: true,
-        });
+        // The common files add it, with an .editorconfig, when asked to; in a workspace it's the root's
+        if (!config.includeFormattingConfig && !config.workspace) {
+            files.push({
+                path: '.prettierrc',
+                template: 'common/prettierrc.hbs',
+                isTemplate: true,
+            });
+        }
 
         // Example app files (conditionally included)
         if (config.includeExample) {
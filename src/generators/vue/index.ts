@@ -21,30 +21,31 @@ export class VueGenerator extends BaseGenerator {
         supportedPackageTypes: ['library', 'plugin', 'utility'],
         supportedRuntimeTargets: ['browser', 'universal'],
         recommendedBuildSystem: 'vite',
+        supportedStyling: ['css', 'css-modules', 'tailwind', 'vanilla-extract'],
     };
 
     protected getFrameworkDependencies(config: GeneratorConfig): DependencySpec[] {
         const deps: DependencySpec[] = [];
 
         // Vue as peer dependency
-        deps.push(this.peerDep('vue', '^3.4.0'));
+        deps.push(this.peerDep('vue'));
 
         // Vue devtools and build tools
-        deps.push(this.devDep('@vitejs/plugin-vue', '^5.2.0'));
-        deps.push(this.devDep('vue-tsc', '^2.2.0'));
+        deps.push(this.devDep('@vitejs/plugin-vue'));
+        deps.push(this.devDep('vue-tsc'));
 
         // Testing
-        deps.push(this.devDep('@vue/test-utils', '^2.4.0'));
-        deps.push(this.devDep('@testing-library/vue', '^8.1.0'));
-        deps.push(this.devDep('@testing-library/jest-dom', '^6.6.0'));
-        deps.push(this.devDep('jsdom', '^25.0.0'));
-        deps.push(this.devDep('happy-dom', '^15.11.0'));
+        deps.push(this.devDep('@vue/test-utils'));
+        deps.push(this.devDep('@testing-library/vue'));
+        deps.push(this.devDep('@testing-library/jest-dom'));
+        deps.push(this.devDep('jsdom'));
+        deps.push(this.devDep('happy-dom'));
 
         // ESLint for Vue
-        deps.push(this.devDep('eslint', '^9.17.0'));
-        deps.push(this.devDep('@eslint/js', '^9.17.0'));
-        deps.push(this.devDep('eslint-plugin-vue', '^9.32.0'));
-        deps.push(this.devDep('typescript-eslint', '^8.18.0'));
+        deps.push(this.devDep('eslint'));
+        deps.push(this.devDep('@eslint/js'));
+        deps.push(this.devDep('eslint-plugin-vue'));
+        deps.push(this.devDep('typescript-eslint'));
 
         return deps;
     }
@@ -65,6 +66,15 @@ export class VueGenerator extends BaseGenerator {
             isTemplate: true,
         });
 
+        // Other strategies style the Button in its single-file component
+        if (config.styling === 'vanilla-extract') {
+            files.push({
+                path: 'src/components/Button/Button.css.ts',
+                template: 'vue/src/components/Button/Button.css.ts.hbs',
+                isTemplate: true,
+            });
+        }
+
         files.push({
             path: 'src/components/Button/Button.test.ts',
             template: 'vue/src/components/Button/Button.test.ts.hbs',
@@ -13,6 +13,11 @@ export { registry } from './core/registry.js';
 export { BaseGenerator } from './core/base-generator.js';
 export { generatePackage } from './core/generator.js';
 export { validatePackage, PackageValidator } from './core/validator.js';
+export { loadAnswersFile, saveAnswersFile, validateAnswers } from './core/answers.js';
+export { printFileTree, printFileContents, printDiff } from './core/preview.js';
+export { FileTransaction } from './core/transaction.js';
+export { readManifest, MANIFEST_PATH } from './core/manifest.js';
+export { hookBus, HOOK_NAMES } from './core/hooks.js';
 
 // Generators
 export { initializeGenerators } from './generators/index.js';
@@ -12,6 +12,7 @@ export const componentLibraryPreset: PresetConfig = {
     moduleFormat: 'esm',
     runtimeTarget: 'browser',
     includeExample: true,
+    styling: 'css',
     ciProvider: 'github-actions',
     includeHusky: true,
     includeCommitlint: true,
@@ -19,15 +20,15 @@ export const componentLibraryPreset: PresetConfig = {
     includeStorybook: true,
     includeChangesets: true,
     additionalDevDeps: {
-        'storybook': '^8.5.0',
-        '@storybook/addon-essentials': '^8.5.0',
-        '@storybook/addon-interactions': '^8.5.0',
-        '@storybook/addon-a11y': '^8.5.0',
-        '@storybook/test': '^8.5.0',
-        'husky': '^9.1.0',
-        '@commitlint/cli': '^19.6.0',
-        '@commitlint/config-conventional': '^19.6.0',
-        '@changesets/cli': '^2.27.0',
+        'storybook': 'catalog:',
+        '@storybook/addon-essentials': 'catalog:',
+        '@storybook/addon-interactions': 'catalog:',
+        '@storybook/addon-a11y': 'catalog:',
+        '@storybook/test': 'catalog:',
+        'husky': 'catalog:',
+        '@commitlint/cli': 'catalog:',
+        '@commitlint/config-conventional': 'catalog:',
+        '@changesets/cli': 'catalog:',
     },
     additionalScripts: {
         'prepare': 'husky',
@@ -18,12 +18,12 @@ export const enterprisePreset: PresetConfig = {
     includeStorybook: false,
     includeChangesets: true,
     additionalDevDeps: {
-        'husky': '^9.1.0',
-        '@commitlint/cli': '^19.6.0',
-        '@commitlint/config-conventional': '^19.6.0',
-        'semantic-release': '^24.2.0',
-        '@changesets/cli': '^2.27.0',
-        'lint-staged': '^15.3.0',
+        'husky': 'catalog:',
+        '@commitlint/cli': 'catalog:',
+        '@commitlint/config-conventional': 'catalog:',
+        'semantic-release': 'catalog:',
+        '@changesets/cli': 'catalog:',
+        'lint-staged': 'catalog:',
     },
     additionalScripts: {
         'prepare': 'husky',
@@ -2,34 +2,62 @@
  * Presets Module
  * Exports all available presets and utilities for preset management
  */
-import type { PresetConfig, PresetName } from '../types/presets.js';
+import type { GeneratorConfig, WizardAnswers } from '../types/index.js';
+import type { BuiltinPresetName, PresetConfig, PresetName } from '../types/presets.js';
+import { versionCatalog } from '../core/versions.js';
 import { minimalPreset } from './minimal.js';
 import { standardPreset } from './standard.js';
 import { enterprisePreset } from './enterprise.js';
 import { componentLibraryPreset } from './component-library.js';
 
 /**
- * All available presets
+ * Built-in presets
  */
-export const presets: Record<PresetName, PresetConfig> = {
+export const presets: Record<BuiltinPresetName, PresetConfig> = {
     minimal: minimalPreset,
     standard: standardPreset,
     enterprise: enterprisePreset,
     'component-library': componentLibraryPreset,
 };
 
+/**
+ * Custom presets loaded from config files and preset packages, with their source
+ */
+const customPresets: Map<string, { preset: PresetConfig; source: string }> = new Map();
+
+/**
+ * Check if a name belongs to a built-in preset
+ */
+export function isBuiltinPreset(name: string): name is BuiltinPresetName {
+    return Object.prototype.hasOwnProperty.call(presets, name);
+}
+
+/**
+ * Register a custom preset
+ */
+export function registerPreset(preset: PresetConfig, source: string): void {
+    customPresets.set(preset.name, { preset, source });
+}
+
 /**
  * Get a preset by name
  */
 export function getPreset(name: PresetName): PresetConfig | undefined {
-    return presets[name];
+    return isBuiltinPreset(name) ? presets[name] : customPresets.get(name)?.preset;
+}
+
+/**
+ * Get where a preset was loaded from ("built-in", a config file, or a package name)
+ */
+export function getPresetSource(name: PresetName): string | undefined {
+    return isBuiltinPreset(name) ? 'built-in' : customPresets.get(name)?.source;
 }
 
 /**
  * Get all available preset names
  */
 export function getPresetNames(): PresetName[] {
-    return Object.keys(presets) as PresetName[];
+    return [...Object.keys(presets), ...customPresets.keys()];
 }
 
 /**
@@ -41,9 +69,49 @@ export function getPresetChoices(): Array<{ value: PresetName; name: string; des
         { value: 'minimal', name: 'Minimal', description: minimalPreset.description },
         { value: 'enterprise', name: 'Enterprise', description: enterprisePreset.description },
         { value: 'component-library', name: 'Component Library', description: componentLibraryPreset.description },
+        ...Array.from(customPresets.values()).map(({ preset, source }) => ({
+            value: preset.name,
+            name: preset.name,
+            description: `${preset.description} (${source})`,
+        })),
     ];
 }
 
+/**
+ * Get the wizard answers a preset pre-fills
+ * Questions with a pre-filled answer are skipped by the wizard
+ */
+export function getPresetAnswers(preset: PresetConfig): Partial<WizardAnswers> {
+    const answers: Partial<WizardAnswers> = {};
+
+    if (preset.buildSystem !== undefined) answers.buildSystem = preset.buildSystem;
+    if (preset.moduleFormat !== undefined) answers.moduleFormat = preset.moduleFormat;
+    if (preset.runtimeTarget !== undefined) answers.runtimeTarget = preset.runtimeTarget;
+    if (preset.includeExample !== undefined) answers.includeExample = preset.includeExample;
+    if (preset.styling !== undefined) answers.styling = preset.styling;
+
+    return answers;
+}
+
+/**
+ * Get the generator config fields a preset contributes
+ * "catalog:" dev dependency versions are resolved through the version catalog
+ */
+export function getPresetGeneratorConfig(preset: PresetConfig): Partial<GeneratorConfig> {
+    return {
+        preset: preset.name,
+        ciProvider: preset.ciProvider,
+        includeHusky: preset.includeHusky,
+        includeCommitlint: preset.includeCommitlint,
+        includeSemanticRelease: preset.includeSemanticRelease,
+        includeStorybook: preset.includeStorybook,
+        includeChangesets: preset.includeChangesets,
+        additionalDevDeps: preset.additionalDevDeps && versionCatalog.resolve(preset.additionalDevDeps),
+        additionalScripts: preset.additionalScripts,
+        additionalFiles: preset.additionalFiles,
+    };
+}
+
 // Export individual presets
 export { minimalPreset } from './minimal.js';
 export { standardPreset } from './standard.js';
@@ -51,4 +119,5 @@ export { enterprisePreset } from './enterprise.js';
 export { componentLibraryPreset } from './component-library.js';
 
 // Export types
-export type { PresetConfig, PresetName, CIProvider } from '../types/presets.js';
+export type { PresetConfig, PresetName, BuiltinPresetName, PresetDefinition, CIProvider } from '../types/presets.js';
+export { loadCustomPresets } from './loader.js';
@@ -0,0 +1,364 @@
+/**
+ * Custom Preset Loader
+ * Loads user-defined presets from scaffold config files and preset packages
+ * Preset packages are listed in config or discovered as scaffold-preset-* in node_modules
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { GeneratorHooks, ValidationIssue } from '../types/index.js';
+import type { PresetConfig, PresetDefinition } from '../types/presets.js';
+import { loadScaffoldConfig } from '../core/config.js';
+import { BUILD_SYSTEMS, MODULE_FORMATS, RUNTIME_TARGETS, CI_PROVIDERS, STYLING_STRATEGIES } from '../core/constants.js';
+import { logger } from '../core/logger.js';
+import { validateHooks } from '../core/hooks.js';
+import { getPreset, isBuiltinPreset, registerPreset } from './index.js';
+
+/**
+ * Naming convention for auto-discovered preset packages
+ */
+const PRESET_PACKAGE_PATTERN = /^(@[^/]+\/)?scaffold-preset-[\w.-]+$/;
+
+/**
+ * Expected type of each preset field
+ */
+type FieldType = 'string' | 'boolean' | 'stringRecord' | 'fileList' | 'hooks';
+
+const PRESET_SCHEMA: Record<keyof PresetDefinition, { type: FieldType; values?: readonly string[] }> = {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    extends: { type: 'string' },
+    buildSystem: { type: 'string', values: BUILD_SYSTEMS },
+    moduleFormat: { type: 'string', values: MODULE_FORMATS },
+    runtimeTarget: { type: 'string', values: RUNTIME_TARGETS },
+    includeExample: { type: 'boolean' },
+    styling: { type: 'string', values: STYLING_STRATEGIES },
+    ciProvider: { type: 'string', values: CI_PROVIDERS },
+    includeHusky: { type: 'boolean' },
+    includeCommitlint: { type: 'boolean' },
+    includeSemanticRelease: { type: 'boolean' },
+    includeStorybook: { type: 'boolean' },
+    includeChangesets: { type: 'boolean' },
+    additionalDevDeps: { type: 'stringRecord' },
+    additionalScripts: { type: 'stringRecord' },
+    additionalFiles: { type: 'fileList' },
+    hooks: { type: 'hooks' },
+};
+
+/**
+ * A preset definition waiting to be validated and resolved
+ */
+interface PendingPreset {
+    name: string;
+    definition: PresetDefinition;
+    source: string;
+    /** Directory a hooks module path is resolved against: the config file's, or the package entry's */
+    baseDir: string;
+}
+
+let loaded = false;
+
+/**
+ * Load custom presets and register them alongside the built-in ones
+ * Invalid presets are skipped; the problems found are returned
+ */
+export async function loadCustomPresets(cwd: string = process.cwd()): Promise<ValidationIssue[]> {
+    if (loaded) {
+        return [];
+    }
+    loaded = true;
+
+    const issues: ValidationIssue[] = [];
+    const pending = new Map<string, PendingPreset>();
+    const { config, layers } = await loadScaffoldConfig(cwd);
+
+    const collect = (name: unknown, definition: unknown, source: string, baseDir: string): void => {
+        if (typeof name !== 'string' || name.trim() === '') {
+            issues.push({
+                severity: 'error',
+                category: 'presets',
+                message: 'Preset is missing a "name"',
+                file: source,
+            });
+            return;
+        }
+
+        if (isBuiltinPreset(name)) {
+            issues.push({
+                severity: 'error',
+                category: 'presets',
+                message: `Preset "${name}" conflicts with the built-in preset of the same name`,
+                suggestion: `Rename it and use "extends": "${name}" to build on the built-in preset`,
+                file: source,
+                jsonPath: `presets.${name}`,
+            });
+            return;
+        }
+
+        pending.set(name, { name, definition: definition as PresetDefinition, source, baseDir });
+    };
+
+    // Presets from packages first, so config files can override them
+    const packageNames = new Set([...(config.presetPackages || []), ...await discoverPresetPackages(cwd)]);
+
+    for (const packageName of packageNames) {
+        try {
+            const { definitions, baseDir } = await importPresetPackage(cwd, packageName);
+            for (const definition of definitions) {
+                collect(definition.name, definition, packageName, baseDir);
+            }
+        } catch (error) {
+            issues.push({
+                severity: 'error',
+                category: 'presets',
+                message: `Failed to load preset package "${packageName}": ${error instanceof Error ? error.message : String(error)}`,
+                file: packageName,
+            });
+        }
+    }
+
+    for (const layer of layers) {
+        for (const [name, definition] of Object.entries(layer.config.presets || {})) {
+            collect(name, definition, layer.file, path.dirname(layer.file));
+        }
+    }
+
+    // Validate, then resolve extends chains
+    const valid = new Map<string, PendingPreset>();
+    for (const preset of pending.values()) {
+        const presetIssues = validatePresetDefinition(preset.definition, preset.source, preset.name);
+        issues.push(...presetIssues);
+        if (presetIssues.some((i) => i.severity === 'error')) {
+            continue;
+        }
+
+        if (typeof preset.definition.hooks === 'string') {
+            try {
+                preset.definition = { ...preset.definition, hooks: await importHooks(preset.baseDir, preset.definition.hooks) };
+            } catch (error) {
+                issues.push({
+                    severity: 'error',
+                    category: 'presets',
+                    message: `Preset "${preset.name}": failed to load hooks: ${error instanceof Error ? error.message : String(error)}`,
+                    file: preset.source,
+                    jsonPath: `presets.${preset.name}.hooks`,
+                });
+                continue;
+            }
+        }
+
+        valid.set(preset.name, preset);
+    }
+
+    for (const preset of valid.values()) {
+        try {
+            registerPreset(resolvePreset(preset, valid, []), preset.source);
+            logger.debug(`Registered preset: ${preset.name} (${preset.source})`);
+        } catch (error) {
+            issues.push({
+                severity: 'error',
+                category: 'presets',
+                message: error instanceof Error ? error.message : String(error),
+                file: preset.source,
+                jsonPath: `presets.${preset.name}.extends`,
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validate a preset definition against the preset schema
+ */
+export function validatePresetDefinition(raw: unknown, source: string, name: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const jsonPath = (key?: string) => key ? `presets.${name}.${key}` : `presets.${name}`;
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return [{
+            severity: 'error',
+            category: 'presets',
+            message: `Preset "${name}" must be an object`,
+            file: source,
+            jsonPath: jsonPath(),
+        }];
+    }
+
+    for (const [key, value] of Object.entries(raw)) {
+        const field = PRESET_SCHEMA[key as keyof PresetDefinition];
+
+        if (!field) {
+            issues.push({
+                severity: 'warning',
+                category: 'presets',
+                message: `Unknown preset field "${key}" in "${name}" will be ignored`,
+                suggestion: `Known fields: ${Object.keys(PRESET_SCHEMA).join(', ')}`,
+                file: source,
+                jsonPath: jsonPath(key),
+            });
+            continue;
+        }
+
+        const problem = checkFieldType(value, field.type, field.values);
+        if (problem) {
+            issues.push({
+                severity: 'error',
+                category: 'presets',
+                message: `Preset "${name}": "${key}" ${problem}`,
+                suggestion: field.values ? `Allowed values: ${field.values.join(', ')}` : undefined,
+                file: source,
+                jsonPath: jsonPath(key),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Describe why a value doesn't match a field type, or return null if it does
+ */
+function checkFieldType(value: unknown, type: FieldType, values?: readonly string[]): string | null {
+    switch (type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                return `must be a string, got ${describe(value)}`;
+            }
+            if (values && !values.includes(value)) {
+                return `has invalid value "${value}"`;
+            }
+            return null;
+        case 'boolean':
+            return typeof value === 'boolean' ? null : `must be a boolean, got ${describe(value)}`;
+        case 'stringRecord':
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return `must be an object of strings, got ${describe(value)}`;
+            }
+            for (const [key, entry] of Object.entries(value)) {
+                if (typeof entry !== 'string') {
+                    return `entry "${key}" must be a string, got ${describe(entry)}`;
+                }
+            }
+            return null;
+        case 'fileList':
+            if (!Array.isArray(value)) {
+                return `must be an array of { path, template } objects, got ${describe(value)}`;
+            }
+            for (const [index, entry] of value.entries()) {
+                if (typeof entry?.path !== 'string' || typeof entry?.template !== 'string') {
+                    return `entry ${index} must have string "path" and "template" fields`;
+                }
+            }
+            return null;
+        case 'hooks':
+            if (typeof value === 'string') {
+                return null;
+            }
+            return validateHooks(value)[0] ?? null;
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Resolve a preset's extends chain into a complete preset
+ */
+function resolvePreset(preset: PendingPreset, valid: Map<string, PendingPreset>, chain: string[]): PresetConfig {
+    if (chain.includes(preset.name)) {
+        throw new Error(`Preset "${chain[0]}" has a circular extends chain: ${[...chain, preset.name].join(' → ')}`);
+    }
+
+    const { hooks, ...definition } = preset.definition;
+    let base: PresetConfig | undefined;
+
+    if (definition.extends) {
+        const parent = valid.get(definition.extends);
+        base = parent
+            ? resolvePreset(parent, valid, [...chain, preset.name])
+            : getPreset(definition.extends);
+
+        if (!base) {
+            throw new Error(`Preset "${preset.name}" extends unknown preset "${definition.extends}"`);
+        }
+    }
+
+    return {
+        ...base,
+        ...definition,
+        name: preset.name,
+        description: definition.description ?? base?.description ?? `Custom preset ${preset.name}`,
+        additionalDevDeps: { ...base?.additionalDevDeps, ...definition.additionalDevDeps },
+        additionalScripts: { ...base?.additionalScripts, ...definition.additionalScripts },
+        additionalFiles: [...(base?.additionalFiles || []), ...(definition.additionalFiles || [])],
+        hooks: [...(base?.hooks || []), ...(hooks ? [hooks as GeneratorHooks] : [])],
+    };
+}
+
+/**
+ * Import a hooks module, relative to the file or package that references it
+ */
+async function importHooks(baseDir: string, modulePath: string): Promise<GeneratorHooks> {
+    const fullPath = path.resolve(baseDir, modulePath);
+    if (!await fs.pathExists(fullPath)) {
+        throw new Error(`${fullPath} does not exist`);
+    }
+
+    const exported = (await import(pathToFileURL(fullPath).href)).default;
+    const problems = validateHooks(exported);
+    if (problems.length > 0) {
+        throw new Error(problems.join('; '));
+    }
+
+    return exported as GeneratorHooks;
+}
+
+/**
+ * Find scaffold-preset-* packages installed in the local node_modules
+ */
+async function discoverPresetPackages(cwd: string): Promise<string[]> {
+    const nodeModules = path.join(cwd, 'node_modules');
+    if (!await fs.pathExists(nodeModules)) {
+        return [];
+    }
+
+    const found: string[] = [];
+    for (const entry of await fs.readdir(nodeModules)) {
+        if (entry.startsWith('@')) {
+            const scoped = await fs.readdir(path.join(nodeModules, entry)).catch(() => [] as string[]);
+            found.push(...scoped.map((name) => `${entry}/${name}`).filter((name) => PRESET_PACKAGE_PATTERN.test(name)));
+        } else if (PRESET_PACKAGE_PATTERN.test(entry)) {
+            found.push(entry);
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Import a preset package
+ * The package's default export (or a JSON main file) may be one preset or an array of presets
+ * Hooks module paths in it are relative to the entry file
+ */
+async function importPresetPackage(
+    cwd: string,
+    packageName: string
+): Promise<{ definitions: PresetDefinition[]; baseDir: string }> {
+    const require = createRequire(path.join(cwd, 'package.json'));
+    const entry = require.resolve(packageName);
+
+    const exported = entry.endsWith('.json')
+        ? await fs.readJson(entry)
+        : (await import(pathToFileURL(entry).href)).default;
+
+    if (exported === undefined) {
+        throw new Error('package has no default export');
+    }
+
+    return { definitions: Array.isArray(exported) ? exported : [exported], baseDir: path.dirname(entry) };
+}
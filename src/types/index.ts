@@ -2,6 +2,7 @@
  * Core types for the Scaffold CLI
  * These types define the plugin architecture and configuration system
  */
+import type { PresetName, PresetDefinition } from './presets.js';
 
 // ============================================================================
 // Framework & Package Type Definitions
@@ -58,6 +59,16 @@ export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
  */
 export type BuildSystem = 'tsup' | 'vite' | 'rollup' | 'unbuild' | 'esbuild';
 
+/**
+ * How a component library styles its components
+ */
+export type StylingStrategy =
+    | 'none'            // Inline or component-scoped styles, no stylesheet
+    | 'css'             // Plain CSS, extracted into one stylesheet
+    | 'css-modules'     // CSS Modules, extracted into one stylesheet
+    | 'tailwind'        // Tailwind utility classes, stylesheet built by the Tailwind CLI
+    | 'vanilla-extract'; // Styles written in TypeScript with vanilla-extract
+
 // ============================================================================
 // Generator Plugin System Types
 // ============================================================================
@@ -89,6 +100,9 @@ export interface GeneratorMeta {
 
     /** Recommended build system for this generator */
     recommendedBuildSystem: BuildSystem;
+
+    /** Styling strategies this generator's components can use besides "none" */
+    supportedStyling?: StylingStrategy[];
 }
 
 /**
@@ -106,8 +120,10 @@ export interface DependencySpec {
  * Export configuration for package.json exports field
  */
 export interface ExportConfig {
-    /** Export path (e.g., ".", "./components") */
+    /** Export path (e.g., ".", "./components", "./icons/*") */
     path: string;
+    /** Source entry point the export is built from; a pattern for a wildcard export */
+    source?: string;
     /** Types entry point */
     types?: string;
     /** ESM entry point */
@@ -118,6 +134,18 @@ export interface ExportConfig {
     default?: string;
 }
 
+/**
+ * An entry point for the build config, from an export's source
+ */
+export interface BuildEntry {
+    /** Output path without extension (e.g., "components/index"), or the output directory of a wildcard export */
+    name: string;
+    /** Source file, or the pattern of a wildcard export */
+    source: string;
+    /** For a wildcard export, the directory whose modules are each built as an entry */
+    dir?: string;
+}
+
 /**
  * File to be generated from a template
  */
@@ -128,10 +156,87 @@ export interface GeneratedFile {
     template: string;
     /** Whether this is a template to be processed or literal content */
     isTemplate: boolean;
+    /**
+     * Copy the file at `template` from the templates roots byte for byte, without Handlebars or Prettier
+     * `template` may be a glob; matches are copied into the `path` directory, keeping their paths
+     * relative to the glob's base directory
+     */
+    copy?: boolean;
+    /** File mode applied after writing, e.g. 0o755 for scripts and git hooks */
+    mode?: number;
     /** Optional condition for generating this file */
     condition?: (config: GeneratorConfig) => boolean;
 }
 
+/**
+ * Condition on the generator config in a template descriptor
+ * A config key that must be truthy ("!key" for falsy), or config keys mapped to their allowed values
+ */
+export type TemplateCondition = string | Record<string, string | boolean | Array<string | boolean>>;
+
+/**
+ * A file listed in a template descriptor
+ */
+export interface TemplateFileEntry {
+    /** Output path, relative to the package root */
+    path: string;
+    /** Template path, relative to the template directory (or the built-in templates) */
+    template: string;
+    /** Copy the file, or every file matching a glob, as is instead of rendering it */
+    copy?: boolean;
+    /** Only generate the file when the condition holds */
+    when?: TemplateCondition;
+}
+
+/**
+ * Descriptor of a custom template directory (scaffold.template.json)
+ */
+export interface TemplateDescriptor {
+    name: string;
+    description?: string;
+    /** Framework whose generator supplies dependencies, exports and validation */
+    framework?: Framework;
+    /** Files to generate; defaults to every .hbs file in the directory */
+    files?: TemplateFileEntry[];
+}
+
+/**
+ * A custom template, ready to generate from
+ */
+export interface CustomTemplate {
+    /** Path or git URL the template was given as */
+    source: string;
+    /** Local directory holding the template (a cached clone for git sources) */
+    dir: string;
+    descriptor: TemplateDescriptor;
+}
+
+/**
+ * A directory on the template search path
+ */
+export interface TemplateLayer {
+    /** template: a directory given directly, such as a custom template */
+    kind: 'template' | 'override' | 'plugin' | 'builtin';
+    /** Where the layer came from, for display */
+    name: string;
+    /** Absolute path of the directory */
+    root: string;
+}
+
+/**
+ * A file rendered in memory, ready to be written
+ */
+export interface RenderedFile {
+    /** Relative path from package root */
+    path: string;
+    /** Final file contents */
+    content: string;
+    /** Set for files copied verbatim: content holds their bytes as base64 */
+    encoding?: 'base64';
+    /** File mode applied after writing */
+    mode?: number;
+}
+
 /**
  * Configuration passed to a generator
  */
@@ -175,8 +280,17 @@ export interface GeneratorConfig {
     /** Whether to include an example application */
     includeExample?: boolean;
 
+    /** Subpath exports besides ".", e.g. "./components" or the wildcard "./icons/*" */
+    subpathExports?: string[];
+
+    /** How components are styled; "none" when not set */
+    styling?: StylingStrategy;
+
     // === Extended options from presets ===
 
+    /** Preset the package was created with */
+    preset?: PresetName;
+
     /** CI provider to use */
     ciProvider?: 'github-actions' | 'gitlab-ci' | 'none';
 
@@ -200,6 +314,134 @@ export interface GeneratorConfig {
 
     /** Additional scripts from preset */
     additionalScripts?: Record<string, string>;
+
+    /** Additional files from preset, rendered as templates */
+    additionalFiles?: Array<{ path: string; template: string }>;
+
+    /** Prettier options for generated files; scaffold-kit's default style when not set */
+    formatting?: FormattingOptions;
+
+    /** Generate a .prettierrc and .editorconfig matching the formatting */
+    includeFormattingConfig?: boolean;
+
+    /** Set when the package is generated into a workspace */
+    workspace?: WorkspaceMembership;
+}
+
+/**
+ * Where a package sits in a workspace
+ * Repository-level files (.gitignore, CI, git hooks, formatting config) are left to the workspace root
+ */
+export interface WorkspaceMembership {
+    /** Path from the package to the workspace root, e.g. "../.." */
+    root: string;
+
+    /** Root tsconfig the package's tsconfig extends, relative to the package */
+    tsconfig?: string;
+
+    /** Root ESLint config the package's lint config builds on, relative to the package */
+    eslintConfig?: string;
+
+    /** Whether the root tsconfig.json lists the package in its project references */
+    referenced?: boolean;
+
+    /** Workspace packages it depends on, with the range the package manager links them by */
+    dependencies?: Record<string, string>;
+}
+
+/**
+ * A package to generate into a new workspace
+ */
+export interface WorkspacePackageSpec {
+    /** Directory under packages/; a scoped name is used as the package name */
+    name: string;
+
+    /** Framework to generate it with */
+    framework: Framework;
+
+    /** Names of other packages in the workspace it depends on */
+    dependsOn?: string[];
+}
+
+/**
+ * Configuration for a new workspace
+ */
+export interface WorkspaceConfig {
+    /** Root package name */
+    name: string;
+    description: string;
+    packageManager: PackageManager;
+    license: string;
+    author: string;
+    repository?: string;
+
+    /** Workspace root directory */
+    outDir: string;
+
+    /** Prettier options for generated files */
+    formatting?: FormattingOptions;
+
+    /** Generate a .prettierrc and .editorconfig in the root */
+    includeFormattingConfig?: boolean;
+
+    /** Packages to generate, dependencies before the packages that use them */
+    packages: WorkspacePackage[];
+}
+
+/**
+ * Template context passed to the workspace root templates
+ */
+export interface WorkspaceTemplateContext extends Omit<WorkspaceConfig, 'packages' | 'formatting'> {
+    /** Current year for license */
+    year: number;
+
+    /** Formatted date */
+    date: string;
+
+    /** CLI version */
+    cliVersion: string;
+
+    /** The workspace's packages, as listed in the root README */
+    packages: Array<{ name: string; dir: string; description: string; framework: Framework }>;
+
+    /** Package globs of the workspace config */
+    workspaceGlobs: string[];
+
+    /** Commands run from the root: install, and each workspace script */
+    commands: Record<string, string>;
+
+    /** Prettier options, with defaults filled in */
+    formatting: Required<FormattingOptions>;
+}
+
+/**
+ * A package in a workspace config, ready to generate
+ */
+export interface WorkspacePackage {
+    /** Generator to use */
+    generatorId: string;
+
+    framework: Framework;
+
+    /** Directory relative to the workspace root, e.g. "packages/core" */
+    dir: string;
+
+    config: GeneratorConfig;
+}
+
+/**
+ * Prettier options used to format generated files
+ */
+export interface FormattingOptions {
+    semi?: boolean;
+    singleQuote?: boolean;
+    trailingComma?: 'all' | 'es5' | 'none';
+    tabWidth?: number;
+    useTabs?: boolean;
+    printWidth?: number;
+    bracketSpacing?: boolean;
+    arrowParens?: 'always' | 'avoid';
+    endOfLine?: 'lf' | 'crlf' | 'cr' | 'auto';
 }
 
 /**
@@ -220,6 +462,74 @@ export interface GeneratorResult {
 
     /** Next steps message for the user */
     nextSteps: string[];
+
+    /** Contents of every rendered file, including package.json (dry runs only) */
+    rendered?: RenderedFile[];
+
+    /** Existing files that were kept although the generated version differs (merge only) */
+    conflicts?: FileConflict[];
+}
+
+/**
+ * An existing file kept in place of a differing generated file
+ */
+export interface FileConflict {
+    /** Relative path from package root */
+    path: string;
+    /** Contents on disk, which were kept */
+    existing: string;
+    /** Contents that would have been generated */
+    generated: string;
+    /** Set for files copied verbatim: both contents are base64 */
+    encoding?: 'base64';
+}
+
+/**
+ * Record of how a package was generated, written to .scaffold/manifest.json
+ */
+export interface GenerationManifest {
+    /** Manifest format version */
+    manifestVersion: 1;
+
+    /** Version of scaffold-kit that generated the package */
+    cliVersion: string;
+
+    /** Generator that produced the package */
+    generator: {
+        id: string;
+        version: string;
+        framework: Framework;
+    };
+
+    /** Preset applied, if any */
+    preset?: string;
+
+    /** Custom template source (path or git URL), if one replaced the generator's templates */
+    template?: string;
+
+    /** Generator config, without the machine-specific output directory */
+    config: Omit<GeneratorConfig, 'outDir'>;
+
+    /** ISO timestamp of generation */
+    generatedAt: string;
+
+    /** SHA-256 content hash of every generated file, keyed by relative path */
+    files: Record<string, string>;
+}
+
+/**
+ * Optional actions run after files are written
+ */
+export type PostGenerateAction = 'git' | 'install' | 'husky' | 'commit';
+
+/**
+ * Outcome of a post-generation action
+ */
+export interface PostGenerateOutcome {
+    action: PostGenerateAction;
+    status: 'done' | 'skipped' | 'failed';
+    /** Why the action was skipped or failed */
+    message?: string;
 }
 
 /**
@@ -259,6 +569,73 @@ export interface Generator {
      * Run any post-generation hooks
      */
     postGenerate?(config: GeneratorConfig, result: GeneratorResult): Promise<void>;
+
+    /**
+     * Directory holding the generator's templates, relative to its plugin package (plugins only)
+     * Defaults to the package's templates directory
+     */
+    templatesDir?: string;
+
+    /**
+     * Lifecycle hooks, run only when this generator is used
+     */
+    hooks?: GeneratorHooks;
+}
+
+/**
+ * Context passed to every lifecycle hook
+ */
+export interface HookContext {
+    /** Config being generated (hooks run before validation may change it) */
+    config: GeneratorConfig;
+
+    /** Generator in use */
+    generator: Generator;
+
+    /** Add a file to the package; only takes effect before package.json is built */
+    emitFile(path: string, content: string): void;
+}
+
+/**
+ * Lifecycle hooks around package generation
+ * Generators, presets and plugins can all subscribe; hooks of the same kind run in turn,
+ * each receiving what the previous one returned
+ */
+export interface GeneratorHooks {
+    /** Before the config is validated */
+    beforeValidate?(context: HookContext): void | Promise<void>;
+
+    /** Before a file is rendered; return a replacement file, or false to skip it */
+    beforeRender?(file: GeneratedFile, context: HookContext): GeneratedFile | false | void | Promise<GeneratedFile | false | void>;
+
+    /** After a file is rendered and formatted; return new content to transform it */
+    afterRender?(file: RenderedFile, context: HookContext): string | void | Promise<string | void>;
+
+    /** Before package.json is serialized; change it in place or return a replacement */
+    beforePackageJson?(
+        pkg: Record<string, unknown>,
+        context: HookContext
+    ): Record<string, unknown> | void | Promise<Record<string, unknown> | void>;
+
+    /** After all files are written; a failure is reported as a warning, since the files stay */
+    afterWrite?(result: GeneratorResult, context: HookContext): void | Promise<void>;
+
+    /** When generation fails; nothing is written by then */
+    onError?(error: Error, context: HookContext): void | Promise<void>;
+}
+
+/**
+ * Where a registered generator came from
+ */
+export interface GeneratorSource {
+    /** Built into scaffold-kit, an installed npm package, or a path listed in config */
+    kind: 'builtin' | 'package' | 'path';
+
+    /** Package name or module path */
+    name: string;
+
+    /** Directory searched for the generator's templates before the built-in templates */
+    templatesRoot?: string;
 }
 
 // ============================================================================
@@ -320,6 +697,7 @@ export type CheckCategory =
     | 'framework'       // Framework version compatibility
     | 'tarball'         // npm pack tarball inspection
     | 'buildOutput'     // Build output correctness
+    | 'bin'             // bin targets are executable scripts
     | 'deprecated';     // Deprecated patterns
 
 /**
@@ -418,6 +796,79 @@ export interface CLIConfig {
     defaultAuthor?: string;
 }
 
+/**
+ * Scaffold config file contents
+ * Read from ~/.scaffoldrc.json and the nearest scaffold.config.json or .scaffoldrc.json
+ */
+export interface ScaffoldConfig {
+    /** Custom presets keyed by name */
+    presets?: Record<string, PresetDefinition>;
+
+    /** npm packages to load presets from (in addition to scaffold-preset-* packages) */
+    presetPackages?: string[];
+
+    /** Generator plugin modules or package directories, relative to the config file */
+    generators?: string[];
+
+    /** Hook modules (default export: GeneratorHooks), relative to the config file */
+    hooks?: string[];
+
+    /**
+     * Template override directories, relative to the config file, highest precedence first
+     * A template at the same relative path replaces the built-in one
+     */
+    templateOverrides?: string[];
+
+    /** Fail on undefined variables and unknown helpers in templates instead of warning */
+    strictTemplates?: boolean;
+
+    /** Prettier options for generated files, over any Prettier config found for the target directory */
+    formatting?: FormattingOptions;
+
+    /** Generate a .prettierrc and .editorconfig in new packages */
+    includeFormattingConfig?: boolean;
+
+    /** Dependency versions over the version catalog's, by package name */
+    versions?: Record<string, string>;
+
+    /** Peer dependency ranges over the version catalog's, by package name */
+    peerRanges?: Record<string, string>;
+}
+
+/**
+ * Answers collected by the create wizard
+ * Can also be supplied through CLI flags or an answers file
+ */
+export interface WizardAnswers {
+    name: string;
+    description: string;
+    framework: Framework;
+    /** Generator id, when the framework has more than one generator */
+    generator?: string;
+    /** Custom template directory or git URL */
+    template?: string;
+    packageType: PackageType;
+    packageManager: PackageManager;
+    buildSystem: BuildSystem;
+    runtimeTarget: RuntimeTarget;
+    moduleFormat: ModuleFormat;
+    license: string;
+    author: string;
+    repository?: string;
+    includeExample: boolean;
+    /** Subpath exports besides "." */
+    subpathExports?: string[];
+    /** Styling strategy, for generators that support one */
+    styling?: StylingStrategy;
+    preset?: PresetName;
+    /** Initialize a git repository with an initial commit */
+    initGit?: boolean;
+    /** Install dependencies with the selected package manager */
+    installDependencies?: boolean;
+    /** Set up git hooks with husky (presets that include husky only) */
+    setupHusky?: boolean;
+}
+
 /**
  * Template context passed to Handlebars templates
  */
@@ -2,12 +2,17 @@
  * Preset Types
  * Defines the structure for template presets
  */
-import type { BuildSystem, PackageManager, RuntimeTarget, ModuleFormat } from './index.js';
+import type { BuildSystem, PackageManager, RuntimeTarget, ModuleFormat, StylingStrategy, GeneratorHooks } from './index.js';
 
 /**
- * Available preset names
+ * Built-in preset names
  */
-export type PresetName = 'minimal' | 'standard' | 'enterprise' | 'component-library';
+export type BuiltinPresetName = 'minimal' | 'standard' | 'enterprise' | 'component-library';
+
+/**
+ * Preset names, including custom presets loaded from config files and packages
+ */
+export type PresetName = BuiltinPresetName | (string & {});
 
 /**
  * CI Provider options
@@ -24,6 +29,9 @@ export interface PresetConfig {
     /** Human-readable description */
     description: string;
 
+    /** Preset this one builds on; its values are used unless overridden */
+    extends?: PresetName;
+
     /** Build system to use */
     buildSystem?: BuildSystem;
 
@@ -36,6 +44,9 @@ export interface PresetConfig {
     /** Include example application */
     includeExample?: boolean;
 
+    /** Styling strategy, used by generators that support it */
+    styling?: StylingStrategy;
+
     /** Include CI configuration */
     ciProvider?: CIProvider;
 
@@ -54,7 +65,7 @@ export interface PresetConfig {
     /** Include Changesets for versioning */
     includeChangesets?: boolean;
 
-    /** Additional dev dependencies to include */
+    /** Additional dev dependencies to include; "catalog:" takes the version from the version catalog */
     additionalDevDeps?: Record<string, string>;
 
     /** Additional scripts to include in package.json */
@@ -62,8 +73,22 @@ export interface PresetConfig {
 
     /** Additional files to generate */
     additionalFiles?: Array<{ path: string; template: string }>;
+
+    /** Lifecycle hooks, including those of the presets it extends */
+    hooks?: GeneratorHooks[];
 }
 
+/**
+ * Custom preset as written in a config file or exported by a preset package
+ * The name may be omitted in config files, where the key is used instead
+ * Hooks are an object of hook functions, or in config files a path to a module exporting one
+ */
+export type PresetDefinition = Omit<PresetConfig, 'name' | 'description' | 'hooks'> & {
+    name?: string;
+    description?: string;
+    hooks?: GeneratorHooks | string;
+};
+
 /**
  * Extended generator config with preset options
  */
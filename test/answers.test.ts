@@ -0,0 +1,110 @@
+/**
+ * Non-interactive Answers
+ * Answers from flags or a file are checked against the answer schema, and --yes fills in the rest
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import type { WizardAnswers } from '../src/types/index.js';
+import { applyAnswerDefaults, getMissingAnswers, loadAnswersFile, saveAnswersFile, validateAnswers } from '../src/core/answers.js';
+import { initializeGenerators } from '../src/generators/index.js';
+
+beforeAll(() => {
+    initializeGenerators();
+});
+
+describe('validateAnswers', () => {
+    it('accepts valid answers', () => {
+        const raw = { name: '@acme/ui', framework: 'react', buildSystem: 'vite', includeExample: false, subpathExports: ['./icons/*'] };
+
+        expect(validateAnswers(raw, 'answers.json')).toEqual({ answers: raw, issues: [] });
+    });
+
+    it('reports and drops answers of the wrong type or value', () => {
+        const { answers, issues } = validateAnswers(
+            { name: 'Not Valid', framework: 'angular', includeExample: 'yes', subpathExports: ['components'], buildSystem: 'tsup' },
+            'answers.json'
+        );
+
+        expect(answers).toEqual({ buildSystem: 'tsup' });
+        expect(issues.map((i) => i.jsonPath).sort()).toEqual(['framework', 'includeExample', 'name', 'subpathExports']);
+        expect(issues.every((i) => i.severity === 'error' && i.file === 'answers.json')).toBe(true);
+    });
+
+    it('warns about unknown answers', () => {
+        const { answers, issues } = validateAnswers({ frameworkk: 'react' }, 'answers.json');
+
+        expect(answers).toEqual({});
+        expect(issues).toEqual([expect.objectContaining({ severity: 'warning', jsonPath: 'frameworkk' })]);
+    });
+
+    it('takes the framework from the generator, and rejects a mismatch', () => {
+        expect(validateAnswers({ generator: 'vue-library' }, 'flags').answers).toEqual({ generator: 'vue-library', framework: 'vue' });
+
+        const { answers, issues } = validateAnswers({ generator: 'vue-library', framework: 'react' }, 'flags');
+        expect(answers).toEqual({ framework: 'react' });
+        expect(issues[0].message).toBe('Generator "vue-library" is for vue, not react');
+    });
+
+    it('rejects anything but an object', () => {
+        expect(validateAnswers(['react'], 'answers.json').issues[0].message).toBe('Answers must be a JSON object');
+    });
+});
+
+describe('applyAnswerDefaults', () => {
+    it('fills in every required answer that has a default', () => {
+        const answers = applyAnswerDefaults({ name: 'my-lib', framework: 'node' });
+
+        expect(getMissingAnswers(answers)).toEqual([]);
+        expect(answers).toMatchObject({
+            description: 'A my-lib package',
+            packageManager: 'npm',
+            runtimeTarget: 'node',
+            moduleFormat: 'esm',
+            license: 'MIT',
+        });
+        expect(getMissingAnswers(applyAnswerDefaults({}))).toEqual([
+            { field: 'name', flag: '[name] argument' },
+            { field: 'description', flag: '--description' },
+            { field: 'framework', flag: '--framework' },
+            { field: 'packageType', flag: '--type' },
+        ]);
+    });
+
+    it('defaults to the generator\'s recommended build system and a supported target', () => {
+        expect(applyAnswerDefaults({ name: 'ui', framework: 'vue' })).toMatchObject({ buildSystem: 'vite', runtimeTarget: 'browser' });
+    });
+
+    it('leaves post-generation actions off unless asked for', () => {
+        expect(applyAnswerDefaults({ name: 'ui', framework: 'react' })).toMatchObject({
+            initGit: false,
+            installDependencies: false,
+            setupHusky: false,
+        });
+        expect(applyAnswerDefaults({ name: 'ui', framework: 'react', initGit: true })).toMatchObject({ initGit: true });
+    });
+
+    it('keeps the answers given', () => {
+        expect(applyAnswerDefaults({ name: 'ui', framework: 'react', license: 'ISC', description: undefined }))
+            .toMatchObject({ license: 'ISC', description: 'A ui package' });
+    });
+});
+
+describe('answers files', () => {
+    it('replays saved answers, including the custom template', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-answers-'));
+        const answers = {
+            ...applyAnswerDefaults({ name: 'ui', description: 'A UI kit', framework: 'react', packageType: 'library' }),
+            template: './templates/team',
+        } as WizardAnswers;
+
+        try {
+            await saveAnswersFile(path.join(dir, 'answers.json'), answers);
+
+            expect(await loadAnswersFile(path.join(dir, 'answers.json'))).toEqual({ answers, issues: [] });
+        } finally {
+            await fs.remove(dir);
+        }
+    });
+});
@@ -0,0 +1,50 @@
+/**
+ * Scaffold Config Validation
+ * Invalid fields and entries are reported and left out, so they never reach generated packages
+ */
+import { describe, it, expect } from 'vitest';
+import { validateScaffoldConfig } from '../src/core/config.js';
+
+const file = '/project/scaffold.config.json';
+
+describe('validateScaffoldConfig', () => {
+    it('keeps a valid config as it is', () => {
+        const raw = {
+            presetPackages: ['scaffold-preset-acme'],
+            generators: ['./generators/solid'],
+            strictTemplates: true,
+            formatting: { semi: false },
+            versions: { react: '^19.0.0' },
+            peerRanges: { react: '>=18' },
+        };
+
+        expect(validateScaffoldConfig(raw, file)).toEqual({ config: raw, issues: [] });
+    });
+
+    it('drops version entries that are not strings', () => {
+        const { config, issues } = validateScaffoldConfig({ versions: { react: 19, vue: '^3.5.0' }, peerRanges: ['>=18'] }, file);
+
+        expect(config).toEqual({ versions: { vue: '^3.5.0' } });
+        expect(issues.map((i) => [i.severity, i.jsonPath])).toEqual([
+            ['error', 'versions.react'],
+            ['error', 'peerRanges'],
+        ]);
+        expect(issues[0].message).toBe('"versions" entry "react" must be a non-empty version string, got number');
+    });
+
+    it('drops invalid list entries and fields', () => {
+        const { config, issues } = validateScaffoldConfig({ generators: ['./a', 42], presetPackages: 'scaffold-preset-acme', strictTemplates: 'yes' }, file);
+
+        expect(config).toEqual({ generators: ['./a'] });
+        expect(issues.map((i) => i.jsonPath)).toEqual(['generators.1', 'presetPackages', 'strictTemplates']);
+        expect(issues.every((i) => i.file === file)).toBe(true);
+    });
+
+    it('warns about unknown fields', () => {
+        const { config, issues } = validateScaffoldConfig({ verisons: {} }, file);
+
+        expect(config).toEqual({});
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ severity: 'warning', message: 'Unknown config field "verisons" will be ignored' });
+    });
+});
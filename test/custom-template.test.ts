@@ -0,0 +1,115 @@
+/**
+ * Custom Templates
+ * A template directory's descriptor can only map files inside the directory to paths inside the package
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import type { GeneratorConfig } from '../src/types/index.js';
+import { isGitSource, loadCustomTemplate, matchesCondition } from '../src/core/custom-template.js';
+
+let root: string;
+let dir: string;
+
+beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-template-'));
+    dir = path.join(root, 'template');
+    await fs.outputFile(path.join(dir, 'src', 'index.ts.hbs'), 'export const name = \'{{name}}\';\n');
+    await fs.outputFile(path.join(dir, '_gitignore.hbs'), 'dist\n');
+    await fs.outputFile(path.join(root, 'secret.hbs'), 'secret\n');
+});
+
+afterEach(async () => {
+    await fs.remove(root);
+});
+
+const writeDescriptor = (files?: unknown) => fs.writeJson(path.join(dir, 'scaffold.template.json'), { name: 'team', files });
+
+describe('loadCustomTemplate', () => {
+    it('maps every .hbs file to its output path when no files are listed', async () => {
+        await writeDescriptor();
+
+        const { template, issues } = await loadCustomTemplate(dir);
+
+        expect(issues).toEqual([]);
+        expect(template!.descriptor.files).toEqual([
+            { path: '.gitignore', template: '_gitignore.hbs' },
+            { path: 'src/index.ts', template: 'src/index.ts.hbs' },
+        ]);
+    });
+
+    it('rejects output paths outside the package', async () => {
+        await writeDescriptor([
+            { path: '../index.ts', template: 'src/index.ts.hbs' },
+            { path: '/etc/index.ts', template: 'src/index.ts.hbs' },
+        ]);
+
+        const { template, issues } = await loadCustomTemplate(dir);
+
+        expect(template).toBeNull();
+        expect(issues.map((i) => i.jsonPath)).toEqual(['files[0].path', 'files[1].path']);
+    });
+
+    it('rejects templates outside the template directory', async () => {
+        await writeDescriptor([
+            { path: 'a.txt', template: '../secret.hbs' },
+            { path: 'b.txt', template: path.join(root, 'secret.hbs') },
+            { path: 'assets', template: '../*.hbs', copy: true },
+        ]);
+
+        const { template, issues } = await loadCustomTemplate(dir);
+
+        expect(template).toBeNull();
+        expect(issues.map((i) => [i.jsonPath, i.message])).toEqual([
+            ['files[0].template', 'Template "../secret.hbs" must stay inside the template directory'],
+            ['files[1].template', `Template "${path.join(root, 'secret.hbs')}" must stay inside the template directory`],
+            ['files[2].template', 'Template "../*.hbs" must stay inside the template directory'],
+        ]);
+    });
+
+    it('rejects templates that link outside the template directory', async () => {
+        await fs.symlink(path.join(root, 'secret.hbs'), path.join(dir, 'linked.hbs'));
+        await writeDescriptor([{ path: 'linked.txt', template: 'linked.hbs' }]);
+
+        const { template, issues } = await loadCustomTemplate(dir);
+
+        expect(template).toBeNull();
+        expect(issues[0].message).toBe('Template "linked.hbs" links to a file outside the template directory');
+    });
+
+    it('skips discovered files that link outside the template directory', async () => {
+        await fs.symlink(path.join(root, 'secret.hbs'), path.join(dir, 'linked.hbs'));
+        await writeDescriptor();
+
+        const { template } = await loadCustomTemplate(dir);
+
+        expect(template!.descriptor.files!.map((f) => f.template)).toEqual(['_gitignore.hbs', 'src/index.ts.hbs']);
+    });
+
+    it('reports missing templates and directories', async () => {
+        await writeDescriptor([{ path: 'a.ts', template: 'missing.hbs' }]);
+
+        expect((await loadCustomTemplate(dir)).issues[0].message).toBe('Template "missing.hbs" not found');
+        expect((await loadCustomTemplate(path.join(root, 'nowhere'))).issues[0].message).toBe('Template directory does not exist');
+    });
+});
+
+describe('matchesCondition', () => {
+    const config = { buildSystem: 'vite', includeExample: false } as GeneratorConfig;
+
+    it('matches config keys, negations and allowed values', () => {
+        expect(matchesCondition('includeExample', config)).toBe(false);
+        expect(matchesCondition('!includeExample', config)).toBe(true);
+        expect(matchesCondition({ buildSystem: ['vite', 'rollup'] }, config)).toBe(true);
+        expect(matchesCondition({ buildSystem: 'tsup', includeExample: false }, config)).toBe(false);
+    });
+});
+
+describe('isGitSource', () => {
+    it('tells git URLs from directories', () => {
+        expect(isGitSource('https://github.com/acme/template.git#v2')).toBe(true);
+        expect(isGitSource('git@github.com:acme/template')).toBe(true);
+        expect(isGitSource('./templates/team')).toBe(false);
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Formatting
+ * The scaffold config's "formatting" section wins over the package's Prettier config, which
+ * replaces the default style; files Prettier can't handle are written as they are
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { DEFAULT_FORMATTING, formatContent, getFormattingOptions, resolveFormatting } from '../src/core/formatting.js';
+import { logger } from '../src/core/logger.js';
+
+let root: string;
+
+beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-formatting-'));
+    vi.stubEnv('HOME', root);
+});
+
+afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.remove(root);
+});
+
+describe('resolveFormatting', () => {
+    it('uses the default style without a Prettier or scaffold config', async () => {
+        expect(await resolveFormatting(path.join(root, 'pkg'))).toEqual(DEFAULT_FORMATTING);
+    });
+
+    it('replaces the default style with a Prettier config found above the directory', async () => {
+        await fs.writeJson(path.join(root, '.prettierrc'), { tabWidth: 4, singleQuote: false, plugins: ['prettier-plugin-foo'] });
+
+        expect(await resolveFormatting(path.join(root, 'packages', 'pkg'))).toEqual({ tabWidth: 4, singleQuote: false });
+    });
+
+    it('adjusts the default style with an .editorconfig', async () => {
+        await fs.writeFile(path.join(root, '.editorconfig'), 'root = true\n\n[*]\nindent_style = tab\n');
+
+        expect(await resolveFormatting(path.join(root, 'pkg'))).toEqual({ ...DEFAULT_FORMATTING, useTabs: true });
+    });
+
+    it('lets the scaffold config override the Prettier config', async () => {
+        await fs.writeJson(path.join(root, '.prettierrc'), { tabWidth: 4, semi: true });
+        await fs.writeJson(path.join(root, 'scaffold.config.json'), { formatting: { semi: false } });
+
+        expect(await resolveFormatting(path.join(root, 'pkg'))).toEqual({ tabWidth: 4, semi: false });
+    });
+});
+
+describe('getFormattingOptions', () => {
+    it('fills in Prettier\'s defaults for options the config leaves out', () => {
+        expect(getFormattingOptions({ formatting: { tabWidth: 4 } })).toMatchObject({ tabWidth: 4, singleQuote: false, printWidth: 80 });
+        expect(getFormattingOptions({})).toMatchObject({ singleQuote: true, printWidth: 100, useTabs: false });
+    });
+});
+
+describe('formatContent', () => {
+    it('formats by extension or file name', async () => {
+        expect(await formatContent('const a = "b"', 'src/index.ts')).toBe('const a = \'b\';\n');
+        expect(await formatContent('{"semi":false}', '.prettierrc')).toBe('{ "semi": false }\n');
+    });
+
+    it('leaves files without a parser as they are', async () => {
+        expect(await formatContent('const a = "b"', 'src/App.svelte')).toBe('const a = "b"');
+        expect(await formatContent('node_modules', '.gitignore')).toBe('node_modules');
+    });
+
+    it('warns about content that does not parse and leaves it as it is', async () => {
+        const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+        expect(await formatContent('const = ;', 'src/index.ts')).toBe('const = ;');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to format src/index.ts'));
+    });
+});
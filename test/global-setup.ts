@@ -0,0 +1,15 @@
+/**
+ * Test Global Setup
+ * Hands the --update flag to the golden snapshot tests, which manage their own files
+ */
+import type { GlobalSetupContext } from 'vitest/node';
+
+declare module 'vitest' {
+    export interface ProvidedContext {
+        updateGolden: boolean;
+    }
+}
+
+export default function setup({ config, provide }: GlobalSetupContext): void {
+    provide('updateGolden', config.update);
+}
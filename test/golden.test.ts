@@ -0,0 +1,353 @@
+/**
+ * Golden Snapshots
+ * Generates every configuration each built-in generator allows, subpath exports with each build
+ * system, each styling strategy with the build systems that support it, and a workspace for each package manager, into a temp dir and compares the output with the snapshots committed
+ * under test/__golden__
+ *
+ * After a template change, refresh them with "npm run test:update" and review the snapshot diff
+ */
+import { describe, it, beforeAll, afterAll, vi, inject } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import type { Generator, GeneratorConfig, GeneratorResult, PackageManager, WorkspaceConfig } from '../src/types/index.js';
+import type { PresetConfig } from '../src/types/presets.js';
+import { generatePackage } from '../src/core/generator.js';
+import { registry } from '../src/core/registry.js';
+import { BUILD_SYSTEMS, MODULE_FORMATS, PACKAGE_MANAGERS, STYLING_BUILD_SYSTEMS } from '../src/core/constants.js';
+import { generateWorkspace, resolveWorkspacePackages } from '../src/core/workspace.js';
+import { initializeGenerators } from '../src/generators/index.js';
+import { getPreset, getPresetGeneratorConfig, getPresetNames } from '../src/presets/index.js';
+
+const GOLDEN_DIR = path.join(__dirname, '__golden__');
+
+/**
+ * Directories whose files change on every run, or only repeat the rest of the output
+ */
+const IGNORED_DIRS = ['.scaffold'];
+
+/**
+ * Marks the start of each generated file in a snapshot
+ */
+const FILE_HEADER = /^==== (.+) ====$/;
+
+/**
+ * Subpath exports for the subpath export cases: a new entry point, one a generator may
+ * already have, and a wildcard
+ */
+const SUBPATH_EXPORTS = ['./components', './utils', './icons/*'];
+
+/**
+ * One configuration in the matrix
+ */
+interface GoldenCase {
+    /** Snapshot file, relative to the golden directory */
+    snapshot: string;
+    generator: Generator;
+    config: GeneratorConfig;
+}
+
+initializeGenerators();
+
+const update = inject('updateGolden');
+const cases = registry.getAll().flatMap(getGoldenCases);
+const workspaceCases = PACKAGE_MANAGERS.map(getWorkspaceCase);
+let tmpDir: string;
+
+beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-golden-'));
+
+    // Keep the developer's own ~/.scaffoldrc.json (overrides, hooks) out of the output
+    vi.stubEnv('HOME', tmpDir);
+    // The license year and anything else dated
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+});
+
+afterAll(async () => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    await fs.remove(tmpDir);
+
+    // Snapshots of configurations that no longer exist
+    if (update) {
+        const expected = new Set([...cases, ...workspaceCases].map((c) => c.snapshot));
+        for (const snapshot of await listFiles(GOLDEN_DIR)) {
+            if (!expected.has(snapshot)) {
+                await fs.remove(path.join(GOLDEN_DIR, snapshot));
+            }
+        }
+    }
+});
+
+for (const generator of registry.getAll()) {
+    describe(generator.meta.id, () => {
+        const generatorCases = cases.filter((c) => c.generator === generator);
+
+        it.each(generatorCases.map((c) => [c.snapshot, c] as const))('%s', async (_snapshot, goldenCase) => {
+            const outDir = path.join(tmpDir, goldenCase.snapshot.replace(/[\\/]/g, '__'));
+            const result = await generatePackage(
+                generator.meta.framework,
+                { ...goldenCase.config, outDir },
+                { generatorId: generator.meta.id }
+            );
+
+            const { config } = goldenCase;
+            await compareWithSnapshot(
+                result,
+                outDir,
+                goldenCase.snapshot,
+                `# ${generator.meta.id}: ${config.packageType}, ${config.buildSystem}, ${config.moduleFormat}, `
+                    + `${config.runtimeTarget}, preset ${config.preset ?? 'none'}`
+            );
+        });
+    });
+}
+
+describe('workspace', () => {
+    it.each(workspaceCases.map((c) => [c.snapshot, c] as const))('%s', async (_snapshot, workspaceCase) => {
+        const outDir = path.join(tmpDir, workspaceCase.snapshot.replace(/[\\/]/g, '__'));
+        const workspace = { ...workspaceCase.workspace, outDir };
+        const result = await generateWorkspace({
+            ...workspace,
+            packages: resolveWorkspacePackages(workspace, [
+                { name: 'core', framework: 'vanilla' },
+                { name: 'react', framework: 'react', dependsOn: ['core'] },
+            ]),
+        });
+
+        await compareWithSnapshot(result, outDir, workspaceCase.snapshot, `# workspace: ${workspace.packageManager}`);
+    });
+});
+
+/**
+ * Check generated output against its snapshot, or write the snapshot when updating
+ */
+async function compareWithSnapshot(result: GeneratorResult, outDir: string, snapshot: string, heading: string): Promise<void> {
+    if (!result.success) {
+        throw new Error(`Generation failed: ${result.error}`);
+    }
+
+    const actual = await snapshotDirectory(outDir, heading);
+    const snapshotPath = path.join(GOLDEN_DIR, snapshot);
+
+    if (update) {
+        await fs.outputFile(snapshotPath, actual);
+        return;
+    }
+
+    if (!await fs.pathExists(snapshotPath)) {
+        throw new Error(`No golden snapshot at ${snapshotPath}. Run "npm run test:update" to create it.`);
+    }
+
+    const expected = await fs.readFile(snapshotPath, 'utf-8');
+    if (actual !== expected) {
+        throw new Error(
+            `Output differs from ${snapshot}. If the change is intended, run "npm run test:update".\n\n`
+            + diffSnapshots(expected, actual)
+        );
+    }
+}
+
+/**
+ * Enumerate the configurations a generator allows: every package type it supports, with no
+ * preset across every build system and module format, and with each built-in preset using the
+ * build system, module format and runtime target the preset fixes; plus subpath exports with
+ * each build system, and each styling strategy with each build system that can bundle it
+ */
+function getGoldenCases(generator: Generator): GoldenCase[] {
+    const goldenCases: GoldenCase[] = [];
+    const { meta } = generator;
+
+    const presets: Array<PresetConfig | undefined> = [undefined, ...getPresetNames().map((name) => getPreset(name))];
+
+    for (const packageType of meta.supportedPackageTypes) {
+        for (const preset of presets) {
+            const runtimeTarget = preset?.runtimeTarget ?? meta.supportedRuntimeTargets[0];
+            if (!meta.supportedRuntimeTargets.includes(runtimeTarget)) {
+                continue;
+            }
+
+            const buildSystems = preset?.buildSystem ? [preset.buildSystem] : BUILD_SYSTEMS;
+            const moduleFormats = preset?.moduleFormat ? [preset.moduleFormat] : MODULE_FORMATS;
+
+            for (const buildSystem of buildSystems) {
+                for (const moduleFormat of moduleFormats) {
+                    const config: GeneratorConfig = {
+                        name: 'golden-pkg',
+                        description: 'Golden snapshot package',
+                        packageType,
+                        runtimeTarget,
+                        moduleFormat,
+                        buildSystem,
+                        packageManager: 'npm',
+                        license: 'MIT',
+                        author: 'Scaffold Kit',
+                        repository: 'https://github.com/scaffold-kit/golden-pkg',
+                        includeExample: preset?.includeExample ?? true,
+                        styling: meta.supportedStyling?.length ? preset?.styling : undefined,
+                        outDir: '.',
+                        ...(preset ? getPresetGeneratorConfig(preset) : {}),
+                    };
+
+                    goldenCases.push({
+                        snapshot: `${meta.id}/${preset?.name ?? 'no-preset'}/${packageType}-${buildSystem}-${moduleFormat}.golden`,
+                        generator,
+                        config,
+                    });
+                }
+            }
+        }
+    }
+
+    for (const buildSystem of BUILD_SYSTEMS) {
+        goldenCases.push({
+            snapshot: `${meta.id}/subpath-exports/${buildSystem}-dual.golden`,
+            generator,
+            config: {
+                name: 'golden-pkg',
+                description: 'Golden snapshot package',
+                packageType: meta.supportedPackageTypes[0],
+                runtimeTarget: meta.supportedRuntimeTargets[0],
+                moduleFormat: 'dual',
+                buildSystem,
+                packageManager: 'npm',
+                license: 'MIT',
+                author: 'Scaffold Kit',
+                outDir: '.',
+                includeExample: false,
+                subpathExports: SUBPATH_EXPORTS,
+            },
+        });
+    }
+
+    for (const styling of meta.supportedStyling || []) {
+        for (const buildSystem of STYLING_BUILD_SYSTEMS[styling]) {
+            goldenCases.push({
+                snapshot: `${meta.id}/styling/${styling}-${buildSystem}.golden`,
+                generator,
+                config: {
+                    name: 'golden-pkg',
+                    description: 'Golden snapshot package',
+                    packageType: meta.supportedPackageTypes[0],
+                    runtimeTarget: meta.supportedRuntimeTargets[0],
+                    moduleFormat: 'esm',
+                    buildSystem,
+                    packageManager: 'npm',
+                    license: 'MIT',
+                    author: 'Scaffold Kit',
+                    outDir: '.',
+                    includeExample: false,
+                    styling,
+                },
+            });
+        }
+    }
+
+    return goldenCases;
+}
+
+/**
+ * The workspace configuration for a package manager: a core package and a React package using it
+ */
+function getWorkspaceCase(packageManager: PackageManager): { snapshot: string; workspace: Omit<WorkspaceConfig, 'packages'> } {
+    return {
+        snapshot: `workspace/${packageManager}.golden`,
+        workspace: {
+            name: '@golden/workspace',
+            description: 'Golden snapshot workspace',
+            packageManager,
+            license: 'MIT',
+            author: 'Scaffold Kit',
+            repository: 'https://github.com/scaffold-kit/golden-workspace',
+            outDir: '.',
+        },
+    };
+}
+
+/**
+ * Read a generated package back as a single readable document, files sorted by path
+ */
+async function snapshotDirectory(dir: string, heading: string): Promise<string> {
+    const files = (await listFiles(dir)).filter((file) => !file.split('/').some((part) => IGNORED_DIRS.includes(part)));
+
+    const sections = [heading, `# ${files.length} files`];
+
+    for (const file of files) {
+        const bytes = await fs.readFile(path.join(dir, file));
+        const content = bytes.toString('utf-8');
+        const mode = (await fs.stat(path.join(dir, file))).mode & 0o777;
+        const header = `==== ${file}${mode & 0o111 ? ` (mode ${mode.toString(8)})` : ''} ====`;
+
+        // Binary assets are summarized, text is compared line by line
+        if (bytes.includes(0) || !Buffer.from(content, 'utf-8').equals(bytes)) {
+            const hash = crypto.createHash('sha256').update(bytes).digest('hex');
+            sections.push(`${header}\n(binary, ${bytes.length} bytes, sha256 ${hash})\n`);
+        } else {
+            sections.push(`${header}\n${content.endsWith('\n') ? content : `${content}\n`}`);
+        }
+    }
+
+    return sections.join('\n\n');
+}
+
+/**
+ * Diff two snapshots file by file, so each hunk is labelled with the generated file it's in
+ */
+function diffSnapshots(expected: string, actual: string): string {
+    const before = splitSnapshot(expected);
+    const after = splitSnapshot(actual);
+    const paths = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+
+    return paths
+        .filter((file) => before.get(file) !== after.get(file))
+        .map((file) => {
+            if (!before.has(file)) return `+++ ${file} (new file)\n`;
+            if (!after.has(file)) return `--- ${file} (no longer generated)\n`;
+            return createTwoFilesPatch(`golden/${file}`, `generated/${file}`, before.get(file)!, after.get(file)!)
+                .split('\n')
+                .slice(1)
+                .join('\n');
+        })
+        .join('\n');
+}
+
+/**
+ * Split a snapshot into generated files; the heading counts as a file of its own
+ */
+function splitSnapshot(snapshot: string): Map<string, string> {
+    const files = new Map<string, string>();
+    let current = '(heading)';
+    let lines: string[] = [];
+
+    for (const line of snapshot.split('\n')) {
+        const header = line.match(FILE_HEADER);
+        if (header) {
+            files.set(current, lines.join('\n'));
+            current = header[1];
+            lines = [];
+        } else {
+            lines.push(line);
+        }
+    }
+    files.set(current, lines.join('\n'));
+
+    return files;
+}
+
+async function listFiles(root: string, relative = ''): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const name of (await fs.readdir(path.join(root, relative))).sort()) {
+        const filePath = relative ? `${relative}/${name}` : name;
+        if ((await fs.stat(path.join(root, filePath))).isDirectory()) {
+            files.push(...await listFiles(root, filePath));
+        } else {
+            files.push(filePath);
+        }
+    }
+
+    return files;
+}
@@ -0,0 +1,142 @@
+/**
+ * Lifecycle Hooks
+ * Hooks run in order and transform what the previous one returned; a hook failing before the
+ * files are written fails the generation without writing anything, one failing after only warns
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import type { GeneratorConfig, GeneratorHooks, HookContext } from '../src/types/index.js';
+import { createHookRunner, validateHooks } from '../src/core/hooks.js';
+import { generatePackage } from '../src/core/generator.js';
+import { registry } from '../src/core/registry.js';
+import { initializeGenerators } from '../src/generators/index.js';
+
+let dir: string;
+
+beforeAll(() => {
+    initializeGenerators();
+});
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-hooks-'));
+    vi.stubEnv('HOME', dir);
+});
+
+afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.remove(dir);
+});
+
+const context = {} as HookContext;
+
+describe('createHookRunner', () => {
+    it('passes each transform the previous one\'s result', async () => {
+        const runner = createHookRunner([
+            { afterRender: (file) => `${file.content}one\n` },
+            undefined,
+            { afterRender: () => undefined },
+            { afterRender: (file) => `${file.content}two\n` },
+        ]);
+
+        expect(await runner.afterRender({ path: 'a.ts', content: '' }, context)).toBe('one\ntwo\n');
+    });
+
+    it('skips a file any beforeRender hook returns false for', async () => {
+        const later = vi.fn();
+        const runner = createHookRunner([
+            { beforeRender: (file) => ({ ...file, path: `lib/${file.path}` }) },
+            { beforeRender: (file) => (file.path === 'lib/skip.ts' ? false : undefined) },
+            { beforeRender: later },
+        ]);
+
+        expect(await runner.beforeRender({ path: 'keep.ts', template: 'keep.hbs', isTemplate: true }, context)).toEqual({ path: 'lib/keep.ts', template: 'keep.hbs', isTemplate: true });
+        expect(await runner.beforeRender({ path: 'skip.ts', template: 'skip.hbs', isTemplate: true }, context)).toBeNull();
+        expect(later).toHaveBeenCalledTimes(1);
+    });
+
+    it('calls every onError hook even when one throws', async () => {
+        const second = vi.fn();
+        const runner = createHookRunner([{ onError: () => { throw new Error('broken'); } }, { onError: second }]);
+
+        await expect(runner.onError(new Error('failed'), context)).resolves.toBeUndefined();
+        expect(second).toHaveBeenCalledWith(new Error('failed'), context);
+    });
+});
+
+describe('validateHooks', () => {
+    it('reports unknown hooks and values that are not functions', () => {
+        expect(validateHooks({ afterWrite: () => undefined })).toEqual([]);
+        expect(validateHooks({ afterWirte: () => undefined, onError: 'log' })).toEqual([
+            expect.stringContaining('Unknown hook "afterWirte"'),
+            'Hook "onError" must be a function',
+        ]);
+        expect(validateHooks([])).toEqual(['Hooks must be an object of hook functions, got array']);
+    });
+});
+
+describe('hooks in generatePackage', () => {
+    const generator = () => registry.getPrimary('node')!;
+    let original: GeneratorHooks | undefined;
+
+    beforeEach(() => {
+        original = generator().hooks;
+    });
+
+    afterEach(() => {
+        (generator() as { hooks?: GeneratorHooks }).hooks = original;
+    });
+
+    const generate = (hooks: GeneratorHooks) => {
+        (generator() as { hooks?: GeneratorHooks }).hooks = hooks;
+        const config: GeneratorConfig = {
+            name: 'hooked',
+            description: 'A hooked package',
+            packageType: 'library',
+            runtimeTarget: 'node',
+            moduleFormat: 'esm',
+            buildSystem: 'tsup',
+            packageManager: 'npm',
+            license: 'MIT',
+            author: '',
+            includeExample: false,
+            outDir: path.join(dir, 'hooked'),
+        };
+        return generatePackage('node', config);
+    };
+
+    it('fails without writing anything when a hook before the write throws', async () => {
+        const onError = vi.fn();
+        const result = await generate({ beforePackageJson: () => { throw new Error('no package.json today'); }, onError });
+
+        expect(result).toMatchObject({ success: false, error: 'no package.json today', files: [] });
+        expect(onError).toHaveBeenCalledWith(new Error('no package.json today'), expect.anything());
+        expect(await fs.readdir(dir)).toEqual([]);
+    });
+
+    it('applies transforms and emitted files', async () => {
+        const result = await generate({
+            beforeRender(file, hookContext) {
+                hookContext.emitFile('NOTICE', 'Generated\n');
+                return file.path === 'LICENSE' ? false : file;
+            },
+            beforePackageJson: (pkg) => ({ ...pkg, private: true }),
+        });
+
+        expect(result.success).toBe(true);
+        expect(await fs.pathExists(path.join(dir, 'hooked', 'LICENSE'))).toBe(false);
+        expect(await fs.readFile(path.join(dir, 'hooked', 'NOTICE'), 'utf-8')).toBe('Generated\n');
+        expect(await fs.readJson(path.join(dir, 'hooked', 'package.json'))).toMatchObject({ private: true });
+    });
+
+    it('reports an afterWrite failure as a warning, keeping the written files', async () => {
+        const onError = vi.fn();
+        const result = await generate({ afterWrite: () => { throw new Error('notify failed'); }, onError });
+
+        expect(result.success).toBe(true);
+        expect(result.warnings).toContain('All files were written, but a post-generation hook failed: notify failed');
+        expect(onError).not.toHaveBeenCalled();
+        expect(await fs.pathExists(path.join(dir, 'hooked', 'package.json'))).toBe(true);
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * Generator Plugin Loader
+ * Plugins found in node_modules, package.json "scaffold" fields and config paths are registered
+ * only if they implement the Generator interface and don't take a built-in generator's id
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import type { ValidationIssue } from '../src/types/index.js';
+import { loadGeneratorPlugins, validateGenerator } from '../src/generators/loader.js';
+import { registry } from '../src/core/registry.js';
+import { hookBus } from '../src/core/hooks.js';
+import { initializeGenerators } from '../src/generators/index.js';
+
+const meta = (id: string) => ({
+    id,
+    name: id,
+    framework: 'node',
+    description: 'A plugin generator',
+    version: '1.0.0',
+    recommendedBuildSystem: 'tsup',
+    supportedPackageTypes: ['library'],
+    supportedRuntimeTargets: ['node'],
+});
+
+const generatorSource = (id: string) => `{
+    meta: ${JSON.stringify(meta(id))},
+    getDependencies: () => ({ dependencies: {}, devDependencies: {}, peerDependencies: {} }),
+    getExports: () => ({}),
+    getFiles: () => [],
+    getPackageJsonExtras: () => ({}),
+    validate: () => [],
+}`;
+
+let root: string;
+let project: string;
+let issues: ValidationIssue[];
+
+beforeAll(async () => {
+    initializeGenerators();
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-loader-'));
+    project = path.join(root, 'project');
+    vi.stubEnv('HOME', root);
+
+    const writePackage = async (name: string, files: Record<string, string>, extra: object = {}) => {
+        const dir = path.join(project, 'node_modules', name);
+        await fs.outputJson(path.join(dir, 'package.json'), { name, type: 'module', main: 'index.js', ...extra });
+        for (const [file, content] of Object.entries(files)) {
+            await fs.outputFile(path.join(dir, file), content);
+        }
+    };
+
+    await fs.outputJson(path.join(project, 'package.json'), { name: 'project', dependencies: { 'acme-kit': '^1.0.0' } });
+    await fs.outputJson(path.join(project, 'scaffold.config.json'), { generators: ['plugins/local.mjs', 'plugins/missing.mjs'] });
+    await fs.outputFile(path.join(project, 'plugins', 'local.mjs'), `export default ${generatorSource('local-node')};\n`);
+
+    await writePackage('scaffold-generator-extra', { 'index.js': `export default ${generatorSource('extra-node')};\n` });
+    await writePackage('@acme/scaffold-generator-broken', { 'index.js': 'export default { meta: { id: \'broken\' } };\n' });
+    await writePackage('scaffold-generator-empty', { 'index.js': 'export const id = \'empty\';\n' });
+    await writePackage('acme-kit', {
+        'gen.js': `export default [${generatorSource('kit-node')}, ${generatorSource('node-package')}];\n`,
+        'hooks.js': 'export default { afterWrite: () => undefined };\n',
+    }, { scaffold: { generators: ['gen.js'], hooks: 'hooks.js' } });
+
+    issues = await loadGeneratorPlugins(project);
+});
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.remove(root);
+});
+
+describe('loadGeneratorPlugins', () => {
+    it('registers plugins from packages, "scaffold.generators" and config paths', () => {
+        expect(registry.getSource('extra-node')).toEqual({
+            kind: 'package',
+            name: 'scaffold-generator-extra',
+            templatesRoot: path.join(project, 'node_modules', 'scaffold-generator-extra', 'templates'),
+        });
+        expect(registry.getSource('kit-node')).toMatchObject({ kind: 'package', name: 'acme-kit' });
+        expect(registry.getSource('local-node')).toMatchObject({ kind: 'path', name: path.join(project, 'plugins', 'local.mjs') });
+        expect(registry.getByFramework('node').map((g) => g.meta.id)).toContain('local-node');
+    });
+
+    it('subscribes hooks listed in "scaffold.hooks"', () => {
+        expect(hookBus.getSubscribers().map((s) => s.source)).toContain('acme-kit');
+    });
+
+    it('reports malformed plugins and leaves them out', () => {
+        const messages = issues.map((i) => i.message);
+
+        expect(messages).toContain('Generator "broken": meta.name must be a non-empty string');
+        expect(messages).toContain('Generator "broken": missing method getFiles()');
+        expect(messages).toContain('Generator plugin has no default export');
+        expect(messages).toContain('Failed to load generator "plugins/missing.mjs": path does not exist');
+        expect(registry.has('broken')).toBe(false);
+    });
+
+    it('refuses a plugin that takes a built-in generator\'s id', () => {
+        expect(issues.map((i) => i.message)).toContain('Generator "node-package" conflicts with the built-in generator of the same id');
+        expect(registry.getSource('node-package')?.kind).toBe('builtin');
+    });
+
+    it('loads plugins only once', async () => {
+        expect(await loadGeneratorPlugins(project)).toEqual([]);
+    });
+});
+
+describe('validateGenerator', () => {
+    it('accepts a complete generator', () => {
+        const methods = Object.fromEntries(['getDependencies', 'getExports', 'getFiles', 'getPackageJsonExtras', 'validate'].map((m) => [m, () => undefined]));
+
+        expect(validateGenerator({ meta: meta('x'), ...methods }, 'x.js')).toEqual([]);
+    });
+
+    it('rejects anything but an object with meta', () => {
+        expect(validateGenerator(() => undefined, 'x.js')[0].message).toBe('Generator plugin export must be a generator object, got function');
+        expect(validateGenerator({}, 'x.js')[0].message).toBe('Generator is missing "meta"');
+    });
+
+    it('checks meta arrays and optional members', () => {
+        const messages = validateGenerator({ meta: { ...meta('x'), supportedPackageTypes: [] }, templatesDir: 1 }, 'x.js').map((i) => i.message);
+
+        expect(messages).toContain('Generator "x": meta.supportedPackageTypes must be a non-empty array');
+        expect(messages).toContain('Generator "x": templatesDir must be a string');
+    });
+});
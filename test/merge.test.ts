@@ -0,0 +1,92 @@
+/**
+ * Three-Way Merge
+ * Update merges local edits with template changes; only overlapping changes that differ conflict
+ */
+import { describe, it, expect } from 'vitest';
+import { conflictWhole, hasConflictMarkers, mergeThreeWay } from '../src/core/merge.js';
+
+const lines = (...values: string[]) => values.map((v) => `${v}\n`).join('');
+
+const base = lines('a', 'b', 'c', 'd', 'e');
+
+describe('mergeThreeWay', () => {
+    it('applies edits to different lines from both sides', () => {
+        const current = lines('A', 'b', 'c', 'd', 'e');
+        const incoming = lines('a', 'b', 'c', 'd', 'E');
+
+        expect(mergeThreeWay(base, current, incoming)).toEqual({ content: lines('A', 'b', 'c', 'd', 'E'), conflicts: 0 });
+    });
+
+    it('applies an edit made on both sides once', () => {
+        const edited = lines('a', 'b', 'C', 'd', 'e');
+
+        expect(mergeThreeWay(base, edited, edited)).toEqual({ content: edited, conflicts: 0 });
+    });
+
+    it('keeps the side that changed when the other did not', () => {
+        const current = lines('a', 'b', 'c', 'd');
+
+        expect(mergeThreeWay(base, current, base)).toEqual({ content: current, conflicts: 0 });
+        expect(mergeThreeWay(base, base, current)).toEqual({ content: current, conflicts: 0 });
+    });
+
+    it('writes conflict markers around overlapping edits that differ', () => {
+        const current = lines('a', 'b', 'mine', 'd', 'e');
+        const incoming = lines('a', 'b', 'theirs', 'd', 'E');
+
+        const result = mergeThreeWay(base, current, incoming, { current: 'local', incoming: 'template' });
+
+        expect(result.conflicts).toBe(1);
+        expect(result.content).toBe(lines('a', 'b', '<<<<<<< local', 'mine', '=======', 'theirs', '>>>>>>> template', 'd', 'E'));
+        expect(hasConflictMarkers(result.content)).toBe(true);
+    });
+
+    it('applies insertions at the start and the end of the file', () => {
+        const current = lines('start', 'a', 'b', 'c', 'd', 'e');
+        const incoming = lines('a', 'b', 'c', 'd', 'e', 'end');
+
+        expect(mergeThreeWay(base, current, incoming)).toEqual({ content: lines('start', 'a', 'b', 'c', 'd', 'e', 'end'), conflicts: 0 });
+    });
+
+    it('conflicts on different insertions at the same place', () => {
+        const result = mergeThreeWay(base, lines('mine', 'a', 'b', 'c', 'd', 'e'), lines('theirs', 'a', 'b', 'c', 'd', 'e'));
+
+        expect(result.conflicts).toBe(1);
+        expect(result.content.startsWith(lines('<<<<<<< current', 'mine', '=======', 'theirs', '>>>>>>> incoming', 'a'))).toBe(true);
+    });
+
+    it('deletes a file emptied on one side and unchanged on the other', () => {
+        expect(mergeThreeWay(base, '', base)).toEqual({ content: '', conflicts: 0 });
+        expect(mergeThreeWay(base, base, '')).toEqual({ content: '', conflicts: 0 });
+    });
+
+    it('conflicts when a file emptied on one side was edited on the other', () => {
+        const result = mergeThreeWay(base, '', lines('a', 'b', 'C', 'd', 'e'));
+
+        expect(result.conflicts).toBe(1);
+        expect(result.content).toBe(lines('<<<<<<< current', '=======', 'a', 'b', 'C', 'd', 'e', '>>>>>>> incoming'));
+    });
+
+    it('ends a last line without a newline before a conflict marker', () => {
+        const result = mergeThreeWay('a\nb', 'a\nmine', 'a\ntheirs');
+
+        expect(result.content).toBe(lines('a', '<<<<<<< current', 'mine', '=======', 'theirs', '>>>>>>> incoming'));
+    });
+});
+
+describe('conflictWhole', () => {
+    it('wraps two unrelated versions in one conflict', () => {
+        expect(conflictWhole(lines('mine'), lines('theirs'))).toEqual({
+            content: lines('<<<<<<< current', 'mine', '=======', 'theirs', '>>>>>>> incoming'),
+            conflicts: 1,
+        });
+    });
+});
+
+describe('hasConflictMarkers', () => {
+    it('only finds complete conflicts at the start of lines', () => {
+        expect(hasConflictMarkers(lines('<<<<<<< current', 'x', '=======', 'y', '>>>>>>> incoming'))).toBe(true);
+        expect(hasConflictMarkers(lines('<<<<<<< current', 'x'))).toBe(false);
+        expect(hasConflictMarkers(lines('// <<<<<<< current', '// =======', '// >>>>>>> incoming'))).toBe(false);
+    });
+});
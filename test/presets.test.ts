@@ -0,0 +1,135 @@
+/**
+ * Presets
+ * A preset pre-fills wizard answers and adds to the generator config; custom presets from config
+ * files are checked against the preset schema and resolved through their extends chains, and
+ * invalid presets and broken chains are reported and left out
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import type { ValidationIssue } from '../src/types/index.js';
+import { loadCustomPresets, validatePresetDefinition } from '../src/presets/loader.js';
+import {
+    componentLibraryPreset,
+    getPreset,
+    getPresetAnswers,
+    getPresetGeneratorConfig,
+    getPresetNames,
+    getPresetSource,
+    minimalPreset,
+} from '../src/presets/index.js';
+
+describe('preset answers and config', () => {
+    it('pre-fills only the answers a preset sets', () => {
+        expect(getPresetAnswers(componentLibraryPreset)).toEqual({
+            buildSystem: 'vite',
+            moduleFormat: 'esm',
+            runtimeTarget: 'browser',
+            includeExample: true,
+            styling: 'css',
+        });
+        expect(getPresetAnswers({ name: 'bare', description: 'Nothing set' })).toEqual({});
+    });
+
+    it('resolves catalog versions of the dev dependencies it adds', () => {
+        const config = getPresetGeneratorConfig(componentLibraryPreset);
+
+        expect(config).toMatchObject({ preset: 'component-library', includeStorybook: true, includeHusky: true });
+        expect(Object.values(config.additionalDevDeps!).every((version) => /^\^?\d/.test(version))).toBe(true);
+        expect(getPresetGeneratorConfig(minimalPreset).additionalDevDeps).toBeUndefined();
+    });
+});
+
+describe('validatePresetDefinition', () => {
+    it('accepts a valid definition', () => {
+        expect(validatePresetDefinition({
+            extends: 'standard',
+            buildSystem: 'vite',
+            includeExample: false,
+            additionalScripts: { storybook: 'storybook dev' },
+            additionalFiles: [{ path: 'CONTRIBUTING.md', template: 'contributing.hbs' }],
+        }, 'scaffold.config.json', 'team')).toEqual([]);
+    });
+
+    it('reports fields of the wrong type or value', () => {
+        const issues = validatePresetDefinition({
+            buildSystem: 'webpack',
+            includeExample: 'yes',
+            additionalDevDeps: { react: 19 },
+            additionalFiles: [{ path: 'a.md' }],
+        }, 'scaffold.config.json', 'team');
+
+        expect(issues.map((i) => [i.jsonPath, i.message])).toEqual([
+            ['presets.team.buildSystem', 'Preset "team": "buildSystem" has invalid value "webpack"'],
+            ['presets.team.includeExample', 'Preset "team": "includeExample" must be a boolean, got string'],
+            ['presets.team.additionalDevDeps', 'Preset "team": "additionalDevDeps" entry "react" must be a string, got number'],
+            ['presets.team.additionalFiles', 'Preset "team": "additionalFiles" entry 0 must have string "path" and "template" fields'],
+        ]);
+        expect(issues.every((i) => i.severity === 'error')).toBe(true);
+    });
+
+    it('warns about unknown fields and rejects anything but an object', () => {
+        expect(validatePresetDefinition({ buildsystem: 'vite' }, 'scaffold.config.json', 'team'))
+            .toEqual([expect.objectContaining({ severity: 'warning', jsonPath: 'presets.team.buildsystem' })]);
+        expect(validatePresetDefinition('vite', 'scaffold.config.json', 'team')[0].message).toBe('Preset "team" must be an object');
+    });
+});
+
+describe('loadCustomPresets', () => {
+    let dir: string;
+    let issues: ValidationIssue[];
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-presets-'));
+        vi.stubEnv('HOME', dir);
+
+        await fs.writeJson(path.join(dir, 'scaffold.config.json'), {
+            presets: {
+                team: { extends: 'standard', buildSystem: 'vite', additionalScripts: { storybook: 'storybook dev' } },
+                'team-strict': { extends: 'team', includeHusky: true, additionalScripts: { lint: 'eslint .' } },
+                loop: { extends: 'loop-back' },
+                'loop-back': { extends: 'loop' },
+                orphan: { extends: 'nowhere' },
+                broken: { moduleFormat: 'umd' },
+                standard: { buildSystem: 'rollup' },
+            },
+        });
+
+        issues = await loadCustomPresets(dir);
+    });
+
+    afterAll(async () => {
+        vi.unstubAllEnvs();
+        await fs.remove(dir);
+    });
+
+    it('resolves extends chains over the built-in presets', () => {
+        expect(getPreset('team-strict')).toMatchObject({
+            name: 'team-strict',
+            buildSystem: 'vite',
+            ciProvider: 'github-actions',
+            includeHusky: true,
+            additionalScripts: { storybook: 'storybook dev', lint: 'eslint .' },
+        });
+        expect(getPresetSource('team')).toBe(path.join(dir, 'scaffold.config.json'));
+    });
+
+    it('reports circular and unknown extends', () => {
+        const messages = issues.map((i) => i.message);
+
+        expect(messages).toContain('Preset "loop" has a circular extends chain: loop → loop-back → loop');
+        expect(messages).toContain('Preset "loop-back" has a circular extends chain: loop-back → loop → loop-back');
+        expect(messages).toContain('Preset "orphan" extends unknown preset "nowhere"');
+    });
+
+    it('leaves out invalid presets and keeps the built-in ones', () => {
+        expect(issues.map((i) => i.jsonPath)).toContain('presets.broken.moduleFormat');
+        expect(issues.find((i) => i.jsonPath === 'presets.standard')?.message)
+            .toBe('Preset "standard" conflicts with the built-in preset of the same name');
+
+        expect(getPresetNames()).not.toContain('broken');
+        expect(getPresetNames()).not.toContain('loop');
+        expect(getPreset('standard')?.buildSystem).toBe('tsup');
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * Generator Selection
+ * With several generators for one framework, the first registered that supports the package type
+ * and runtime target is used, unless --generator names one; an unknown generator id is rejected
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Generator, PackageType, RuntimeTarget } from '../src/types/index.js';
+import { registry } from '../src/core/registry.js';
+import { applyAnswerDefaults, validateAnswers } from '../src/core/answers.js';
+
+const fakeGenerator = (id: string, packageTypes: PackageType[], runtimeTargets: RuntimeTarget[]): Generator => ({
+    meta: {
+        id,
+        name: id,
+        framework: 'node',
+        description: `The ${id} generator`,
+        version: '1.0.0',
+        supportedPackageTypes: packageTypes,
+        supportedRuntimeTargets: runtimeTargets,
+        recommendedBuildSystem: id === 'node-cli' ? 'tsup' : 'unbuild',
+    },
+    getDependencies: () => [],
+    getExports: () => [],
+    getFiles: () => [],
+    getPackageJsonExtras: () => ({}),
+    validate: () => ({ valid: true, issues: [] }),
+});
+
+beforeEach(() => {
+    registry.clear();
+    registry.register(fakeGenerator('node-lib', ['library', 'utility'], ['node', 'universal']));
+    registry.register(fakeGenerator('node-cli', ['cli', 'utility'], ['node']));
+});
+
+describe('registry.findCompatible', () => {
+    it('keeps the generators that support the package type and runtime target, in registration order', () => {
+        const ids = (requirements: { packageType?: PackageType; runtimeTarget?: RuntimeTarget }) =>
+            registry.findCompatible('node', requirements).map((g) => g.meta.id);
+
+        expect(ids({})).toEqual(['node-lib', 'node-cli']);
+        expect(ids({ packageType: 'utility' })).toEqual(['node-lib', 'node-cli']);
+        expect(ids({ packageType: 'cli' })).toEqual(['node-cli']);
+        expect(ids({ packageType: 'utility', runtimeTarget: 'universal' })).toEqual(['node-lib']);
+        expect(ids({ packageType: 'cli', runtimeTarget: 'universal' })).toEqual([]);
+        expect(registry.findCompatible('react')).toEqual([]);
+    });
+});
+
+describe('generator answers', () => {
+    it('defaults from the first compatible generator', () => {
+        expect(applyAnswerDefaults({ name: 'tool', framework: 'node', packageType: 'cli' })).toMatchObject({ buildSystem: 'tsup' });
+        expect(applyAnswerDefaults({ name: 'lib', framework: 'node' })).toMatchObject({ packageType: 'library', buildSystem: 'unbuild' });
+    });
+
+    it('uses the generator given with --generator', () => {
+        const { answers, issues } = validateAnswers({ generator: 'node-cli' }, 'flags');
+
+        expect(issues).toEqual([]);
+        expect(applyAnswerDefaults({ ...answers, name: 'tool' })).toMatchObject({ framework: 'node', packageType: 'cli', buildSystem: 'tsup' });
+    });
+
+    it('rejects an unknown generator id', () => {
+        const { answers, issues } = validateAnswers({ generator: 'node-app' }, 'flags');
+
+        expect(answers).toEqual({});
+        expect(issues).toEqual([expect.objectContaining({
+            severity: 'error',
+            message: '"generator" has invalid value "node-app"',
+            suggestion: 'Allowed values: node-lib, node-cli',
+        })]);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Template Engine
+ * Undefined variables and unknown helpers fail a strict render and only warn in a lenient one,
+ * naming the template and line either way; plugin roots shadow the built-in templates
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import type { TemplateContext } from '../src/types/index.js';
+import { TemplateEngine } from '../src/core/template-engine.js';
+import { logger } from '../src/core/logger.js';
+
+let root: string;
+let engine: TemplateEngine;
+
+beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-engine-'));
+    engine = new TemplateEngine();
+    await fs.outputFile(path.join(root, 'typo.hbs'), '# {{name}}\n\n{{descripton}}\n');
+    await fs.outputFile(path.join(root, 'helper.hbs'), '# {{name}}\n{{kebabCase name}}\n');
+});
+
+afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(root);
+});
+
+const context = { name: 'my-lib', description: 'A library' } as TemplateContext;
+
+describe('strict rendering', () => {
+    beforeEach(() => {
+        engine.setStrictness('strict');
+    });
+
+    it('fails on an undefined variable, naming the template and line', async () => {
+        await expect(engine.render('typo.hbs', context, [root])).rejects.toThrow('typo.hbs:3: undefined variable "descripton"');
+    });
+
+    it('fails on an unknown helper', async () => {
+        await expect(engine.render('helper.hbs', context, [root])).rejects.toThrow('helper.hbs:2: unknown helper "kebabCase"');
+    });
+
+    it('fails an inline template the same way', () => {
+        expect(() => engine.renderString('{{name}} {{version}}', context)).toThrow('<inline template>:1: undefined variable "version"');
+    });
+});
+
+describe('lenient rendering', () => {
+    beforeEach(() => {
+        engine.setStrictness('lenient');
+    });
+
+    it('warns about every problem and renders them as empty', async () => {
+        const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+        await fs.outputFile(path.join(root, 'both.hbs'), '{{kebabCase name}}\n{{version}}\n');
+
+        expect(await engine.render('both.hbs', context, [root])).toBe('\n\n');
+        expect(warn.mock.calls.map(([message]) => message)).toEqual([
+            'both.hbs:1: unknown helper "kebabCase"',
+            'both.hbs:2: undefined variable "version"',
+        ]);
+    });
+
+    it('renders a template without problems silently', async () => {
+        const warn = vi.spyOn(logger, 'warn');
+        await fs.outputFile(path.join(root, 'ok.hbs'), '{{pascalCase name}}: {{description}}');
+
+        expect(await engine.render('ok.hbs', context, [root])).toBe('MyLib: A library');
+        expect(warn).not.toHaveBeenCalled();
+    });
+});
+
+describe('resolveAssets', () => {
+    it('maps glob matches relative to the pattern base, earlier roots first', async () => {
+        const plugin = path.join(root, 'plugin');
+        await fs.outputFile(path.join(root, 'assets', 'icons', 'a.svg'), 'built-in a');
+        await fs.outputFile(path.join(root, 'assets', 'icons', 'nested', 'b.svg'), 'built-in b');
+        await fs.outputFile(path.join(plugin, 'assets', 'icons', 'a.svg'), 'plugin a');
+
+        const assets = await engine.resolveAssets('assets/icons/**/*.svg', [plugin, root]);
+
+        expect(Object.fromEntries(assets)).toEqual({
+            'a.svg': path.join(plugin, 'assets', 'icons', 'a.svg'),
+            'nested/b.svg': path.join(root, 'assets', 'icons', 'nested', 'b.svg'),
+        });
+    });
+
+    it('maps a single file to an empty relative path', async () => {
+        expect(Object.fromEntries(await engine.resolveAssets('typo.hbs', [root]))).toEqual({ '': path.join(root, 'typo.hbs') });
+        expect((await engine.resolveAssets('missing.svg', [root])).size).toBe(0);
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Template Layers
+ * Project overrides shadow user overrides, which shadow the built-in templates; ejecting copies a
+ * built-in template into an override directory without replacing one already there
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { getOverrideLayers, getTemplateLayers, resolveTemplateLayers } from '../src/core/template-layers.js';
+import { templateEngine } from '../src/core/template-engine.js';
+import { templatesCommand } from '../src/commands/templates.js';
+import { logger } from '../src/core/logger.js';
+
+let root: string;
+let project: string;
+
+beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-layers-'));
+    project = path.join(root, 'project');
+    vi.stubEnv('HOME', root);
+
+    await fs.outputJson(path.join(root, '.scaffoldrc.json'), { templateOverrides: ['user-templates'] });
+    await fs.outputFile(path.join(root, 'user-templates', 'common', 'README.md.hbs'), '# user\n');
+    await fs.outputFile(path.join(root, 'user-templates', 'common', 'LICENSE.hbs'), 'user license\n');
+
+    await fs.outputJson(path.join(project, 'scaffold.config.json'), { templateOverrides: ['templates'] });
+    await fs.outputFile(path.join(project, 'templates', 'common', 'README.md.hbs'), '# project\n');
+});
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.remove(root);
+});
+
+describe('resolveTemplateLayers', () => {
+    it('searches project overrides, then user overrides, then the built-in templates', async () => {
+        expect((await getTemplateLayers(project)).map((layer) => [layer.kind, layer.root])).toEqual([
+            ['override', path.join(project, 'templates')],
+            ['override', path.join(root, 'user-templates')],
+            ['builtin', templateEngine.getTemplatesRoot()],
+        ]);
+    });
+
+    it('loads each template from the first layer that has it', async () => {
+        const templates = await resolveTemplateLayers(await getTemplateLayers(project));
+        const layerOf = (templatePath: string) => {
+            const template = templates.find((t) => t.path === templatePath)!;
+            return [template.layer.root, template.shadowed.map((layer) => layer.root)];
+        };
+
+        expect(layerOf('common/README.md.hbs')).toEqual([
+            path.join(project, 'templates'),
+            [path.join(root, 'user-templates'), templateEngine.getTemplatesRoot()],
+        ]);
+        expect(layerOf('common/LICENSE.hbs')).toEqual([path.join(root, 'user-templates'), [templateEngine.getTemplatesRoot()]]);
+        expect(layerOf('common/gitignore.hbs')).toEqual([templateEngine.getTemplatesRoot(), []]);
+    });
+
+    it('keeps override directories that do not exist yet', async () => {
+        await fs.remove(path.join(root, 'user-templates'));
+
+        expect(await getOverrideLayers(project)).toHaveLength(2);
+        expect((await resolveTemplateLayers(await getOverrideLayers(project))).map((t) => t.path)).toEqual(['common/README.md.hbs']);
+    });
+});
+
+describe('templates eject', () => {
+    const builtIn = (templatePath: string) => fs.readFile(path.join(templateEngine.getTemplatesRoot(), templatePath), 'utf-8');
+    const override = (templatePath: string) => path.join(project, 'templates', templatePath);
+
+    beforeEach(() => {
+        vi.spyOn(process, 'cwd').mockReturnValue(project);
+        vi.spyOn(process, 'exit').mockImplementation((code) => {
+            throw new Error(`process.exit(${code})`);
+        });
+        vi.spyOn(logger, 'error').mockImplementation(() => undefined);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('copies a built-in template into the first override directory', async () => {
+        await templatesCommand('eject', 'common/LICENSE');
+
+        expect(await fs.readFile(override('common/LICENSE.hbs'), 'utf-8')).toBe(await builtIn('common/LICENSE.hbs'));
+    });
+
+    it('refuses to overwrite an existing override without --force', async () => {
+        await expect(templatesCommand('eject', 'common/README.md.hbs')).rejects.toThrow('process.exit(1)');
+
+        expect(logger.error).toHaveBeenCalledWith(`${override('common/README.md.hbs')} already exists. Use --force to replace it.`);
+        expect(await fs.readFile(override('common/README.md.hbs'), 'utf-8')).toBe('# project\n');
+
+        await templatesCommand('eject', 'common/README.md.hbs', { force: true });
+
+        expect(await fs.readFile(override('common/README.md.hbs'), 'utf-8')).toBe(await builtIn('common/README.md.hbs'));
+    });
+
+    it('refuses an unknown template', async () => {
+        await expect(templatesCommand('eject', 'common/missing.hbs')).rejects.toThrow('process.exit(1)');
+
+        expect(logger.error).toHaveBeenCalledWith('Template not found: common/missing.hbs');
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * File Transaction
+ * Files are staged next to the target and moved into place, and marked files removed, on commit;
+ * a failure or rollback leaves the target as it was, without temporary directories
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { FileTransaction } from '../src/core/transaction.js';
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-transaction-'));
+});
+
+afterEach(async () => {
+    await fs.remove(dir);
+});
+
+const files = [
+    { path: 'package.json', content: '{}\n' },
+    { path: 'src/index.ts', content: 'export {};\n' },
+    { path: 'bin/cli.js', content: '#!/usr/bin/env node\n', mode: 0o755 },
+];
+
+describe('FileTransaction', () => {
+    it('creates a fresh target with the usual directory mode', async () => {
+        const target = path.join(dir, 'pkg');
+        const transaction = new FileTransaction(target);
+
+        await transaction.stage(files);
+        await transaction.commit();
+        transaction.dispose();
+
+        expect(await fs.readFile(path.join(target, 'src/index.ts'), 'utf-8')).toBe('export {};\n');
+        expect((await fs.stat(path.join(target, 'bin/cli.js'))).mode & 0o777).toBe(0o755);
+        expect((await fs.stat(target)).mode & 0o777).toBe(0o777 & ~process.umask());
+        expect(await fs.readdir(dir)).toEqual(['pkg']);
+    });
+
+    it('stages into subdirectories across several calls', async () => {
+        const target = path.join(dir, 'workspace');
+        const transaction = new FileTransaction(target);
+
+        await transaction.stage([{ path: 'package.json', content: '{}\n' }]);
+        await transaction.stage([{ path: 'package.json', content: '{"name":"ui"}\n' }], 'packages/ui');
+        await transaction.commit();
+        transaction.dispose();
+
+        expect(await fs.readJson(path.join(target, 'packages/ui/package.json'))).toEqual({ name: 'ui' });
+    });
+
+    it('restores replaced files and removes created ones on rollback', async () => {
+        const target = path.join(dir, 'pkg');
+        await fs.outputFile(path.join(target, 'package.json'), '{"name":"mine"}\n');
+        await fs.outputFile(path.join(target, 'notes.md'), 'keep\n');
+
+        const transaction = new FileTransaction(target);
+        await transaction.stage(files);
+        await transaction.commit();
+        expect(await fs.readFile(path.join(target, 'package.json'), 'utf-8')).toBe('{}\n');
+
+        transaction.rollback();
+
+        expect((await fs.readdir(target)).sort()).toEqual(['notes.md', 'package.json']);
+        expect(await fs.readFile(path.join(target, 'package.json'), 'utf-8')).toBe('{"name":"mine"}\n');
+        expect(await fs.readdir(dir)).toEqual(['pkg']);
+    });
+
+    it('removes marked files on commit and restores them on rollback', async () => {
+        const target = path.join(dir, 'pkg');
+        await fs.outputFile(path.join(target, 'src/old.ts'), 'export {};\n');
+
+        const transaction = new FileTransaction(target);
+        await transaction.stage(files);
+        await transaction.remove(['old.ts', 'missing.ts'], 'src');
+        await transaction.commit();
+        expect(await fs.readdir(path.join(target, 'src'))).toEqual(['index.ts']);
+
+        transaction.rollback();
+
+        expect(await fs.readFile(path.join(target, 'src/old.ts'), 'utf-8')).toBe('export {};\n');
+        expect(await fs.readdir(dir)).toEqual(['pkg']);
+    });
+
+    it('removes a fresh target on rollback', async () => {
+        const target = path.join(dir, 'pkg');
+        const transaction = new FileTransaction(target);
+
+        await transaction.stage(files);
+        await transaction.commit();
+        transaction.rollback();
+
+        expect(await fs.readdir(dir)).toEqual([]);
+    });
+
+    it('leaves nothing behind when staging fails', async () => {
+        const target = path.join(dir, 'pkg');
+        const transaction = new FileTransaction(target);
+
+        // A file can't also be a directory
+        await expect(transaction.stage([...files, { path: 'package.json/nested', content: '' }]))
+            .rejects.toThrow('Failed to write package.json/nested');
+        transaction.rollback();
+
+        expect(await fs.readdir(dir)).toEqual([]);
+    });
+
+    it('handles Ctrl+C from the first stage until disposed', async () => {
+        const listeners = process.listenerCount('SIGINT');
+        const transaction = new FileTransaction(path.join(dir, 'pkg'));
+
+        await transaction.stage(files);
+        expect(process.listenerCount('SIGINT')).toBe(listeners + 1);
+
+        await transaction.stage(files, 'again');
+        expect(process.listenerCount('SIGINT')).toBe(listeners + 1);
+
+        transaction.dispose();
+        expect(process.listenerCount('SIGINT')).toBe(listeners);
+    });
+
+    it('refuses to commit without staged files', async () => {
+        await expect(new FileTransaction(path.join(dir, 'pkg')).commit()).rejects.toThrow('Nothing staged to commit');
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Side Effects Check
+ * A package shipping stylesheets has to list them in "sideEffects", or bundlers drop their imports
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { PackageValidator } from '../src/core/validator.js';
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-validator-'));
+});
+
+afterEach(async () => {
+    await fs.remove(dir);
+});
+
+/**
+ * Validate a package.json and return the sideEffects issues
+ */
+async function checkSideEffects(packageJson: Record<string, unknown>) {
+    await fs.writeJson(path.join(dir, 'package.json'), { name: 'styled', ...packageJson });
+    const results = await new PackageValidator(dir).validateAll();
+    return results.find((r) => r.category === 'sideEffects')!.issues;
+}
+
+const exports = {
+    '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+    './styles.css': './dist/styles.css',
+};
+
+describe('sideEffects', () => {
+    it('suggests false for a package without stylesheets', async () => {
+        const [issue] = await checkSideEffects({ exports: { '.': exports['.'] } });
+        expect(issue.suggestion).toMatch(/"sideEffects": false/);
+
+        expect(await checkSideEffects({ exports: { '.': exports['.'] }, sideEffects: false })).toEqual([]);
+    });
+
+    it('suggests listing the stylesheets of a package exporting them', async () => {
+        const [issue] = await checkSideEffects({ exports });
+        expect(issue.severity).toBe('warning');
+        expect(issue.suggestion).toMatch(/"sideEffects": \["\*\*\/\*\.css"\]/);
+    });
+
+    it('flags false when the package ships stylesheets', async () => {
+        await fs.outputFile(path.join(dir, 'dist', 'components', 'button.css'), '.button {}\n');
+
+        const [issue] = await checkSideEffects({ exports, sideEffects: false });
+        expect(issue.severity).toBe('error');
+        expect(issue.message).toContain('dist/components/button.css, dist/styles.css');
+    });
+
+    it('accepts patterns covering the stylesheets', async () => {
+        expect(await checkSideEffects({ exports, sideEffects: ['**/*.css'] })).toEqual([]);
+        expect(await checkSideEffects({ exports, sideEffects: ['*.css'] })).toEqual([]);
+        expect(await checkSideEffects({ exports, sideEffects: ['./dist/styles.css'] })).toEqual([]);
+
+        const [issue] = await checkSideEffects({ exports, sideEffects: ['./dist/polyfill.js'] });
+        expect(issue.suggestion).toBe('Add "**/*.css" to "sideEffects"');
+    });
+});
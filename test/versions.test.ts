@@ -0,0 +1,98 @@
+/**
+ * Version Catalog
+ * Every dependency version a built-in generator or preset emits has to come from the version catalog
+ *
+ * Each catalog entry is overridden with a marker naming it, so a version written into a generator
+ * or preset directly shows up as a dependency without its marker
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Generator, GeneratorConfig } from '../src/types/index.js';
+import { registry } from '../src/core/registry.js';
+import { BUILD_SYSTEMS, MODULE_FORMATS } from '../src/core/constants.js';
+import { DEFAULT_PEER_RANGES, DEFAULT_VERSIONS, versionCatalog } from '../src/core/versions.js';
+import { initializeGenerators } from '../src/generators/index.js';
+import { getPreset, getPresetGeneratorConfig, getPresetNames } from '../src/presets/index.js';
+
+initializeGenerators();
+
+const marker = (name: string) => `<catalog ${name}>`;
+const peerMarker = (name: string) => `<catalog peer ${name}>`;
+
+beforeAll(() => {
+    versionCatalog.applyOverrides([{
+        file: 'versions.test.ts',
+        scope: 'project',
+        config: {
+            versions: Object.fromEntries(Object.keys(DEFAULT_VERSIONS).map((name) => [name, marker(name)])),
+            peerRanges: Object.fromEntries(Object.keys(DEFAULT_PEER_RANGES).map((name) => [name, peerMarker(name)])),
+        },
+    }]);
+});
+
+afterAll(() => {
+    versionCatalog.reset();
+});
+
+describe('generators', () => {
+    it.each(registry.getAll().map((g) => [g.meta.id, g] as const))('%s resolves every version through the catalog', (_id, generator) => {
+        for (const config of getConfigs(generator)) {
+            for (const dep of generator.getDependencies(config)) {
+                const expected = dep.type === 'peerDependency' ? peerMarker(dep.name) : marker(dep.name);
+                expect(dep.version, `${dep.name} (${dep.type}) for ${config.packageType}, ${config.buildSystem}, ${config.moduleFormat}`)
+                    .toBe(expected);
+            }
+        }
+    });
+});
+
+describe('presets', () => {
+    it.each(getPresetNames())('%s resolves every dev dependency through the catalog', (name) => {
+        const { additionalDevDeps = {} } = getPresetGeneratorConfig(getPreset(name)!);
+
+        for (const [dep, version] of Object.entries(additionalDevDeps)) {
+            expect(version, dep).toBe(marker(dep));
+        }
+    });
+});
+
+describe('overrides', () => {
+    it('reports where an overridden version comes from', () => {
+        const entry = versionCatalog.getEntries().find((e) => e.kind === 'version' && e.name === 'eslint');
+
+        expect(entry).toMatchObject({
+            version: marker('eslint'),
+            defaultVersion: DEFAULT_VERSIONS.eslint,
+            source: 'versions.test.ts',
+        });
+    });
+
+    it('rejects a catalog: version for a package the catalog does not have', () => {
+        expect(() => versionCatalog.resolve({ 'not-in-catalog': 'catalog:' })).toThrow(/not in the version catalog/);
+    });
+});
+
+/**
+ * Every package type, build system, module format and styling strategy the generator supports
+ */
+function getConfigs(generator: Generator): GeneratorConfig[] {
+    const stylings = [undefined, ...(generator.meta.supportedStyling || [])];
+
+    return generator.meta.supportedPackageTypes.flatMap((packageType) =>
+        BUILD_SYSTEMS.flatMap((buildSystem) =>
+            MODULE_FORMATS.flatMap((moduleFormat) => stylings.map((styling): GeneratorConfig => ({
+                name: 'versions-pkg',
+                description: 'Version catalog test package',
+                packageType,
+                runtimeTarget: generator.meta.supportedRuntimeTargets[0],
+                moduleFormat,
+                buildSystem,
+                packageManager: 'npm',
+                license: 'MIT',
+                author: 'Scaffold Kit',
+                outDir: '.',
+                includeExample: true,
+                styling,
+            })))
+        )
+    );
+}
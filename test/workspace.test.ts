@@ -0,0 +1,162 @@
+/**
+ * Workspace Generation and Detection
+ * A workspace is written whole or not at all; a package created inside an existing workspace is
+ * placed under the workspace's globs, builds on the root's configs and is registered in the root
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import type { WorkspaceConfig } from '../src/types/index.js';
+import {
+    findWorkspaceRoot,
+    generateWorkspace,
+    getWorkspaceMembership,
+    getWorkspacePlacement,
+    registerWorkspacePackage,
+    resolveWorkspacePackages,
+} from '../src/core/workspace.js';
+import { initializeGenerators } from '../src/generators/index.js';
+
+let root: string;
+
+beforeAll(() => {
+    initializeGenerators();
+});
+
+beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scaffold-workspace-'));
+    vi.stubEnv('HOME', root);
+});
+
+afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.remove(root);
+});
+
+describe('generateWorkspace', () => {
+    const getWorkspace = (): Omit<WorkspaceConfig, 'packages'> => ({
+        name: '@acme/monorepo',
+        description: 'Acme packages',
+        packageManager: 'pnpm',
+        license: 'MIT',
+        author: 'Acme',
+        outDir: path.join(root, 'acme'),
+    });
+
+    it('writes the root and every package', async () => {
+        const workspace = getWorkspace();
+        const result = await generateWorkspace({
+            ...workspace,
+            packages: resolveWorkspacePackages(workspace, [{ name: 'core', framework: 'vanilla' }]),
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.files).toContain('packages/core/src/index.ts');
+        expect(await fs.readJson(path.join(root, 'acme', 'packages', 'core', 'package.json'))).toMatchObject({ name: '@acme/core' });
+        expect(await fs.pathExists(path.join(root, 'acme', 'pnpm-workspace.yaml'))).toBe(true);
+    });
+
+    it('writes nothing when a later package fails', async () => {
+        const workspace = getWorkspace();
+        const packages = resolveWorkspacePackages(workspace, [
+            { name: 'core', framework: 'vanilla' },
+            { name: 'ui', framework: 'react', dependsOn: ['core'] },
+        ]);
+        // unbuild can't bundle stylesheets, so the second package fails validation
+        packages[1].config = { ...packages[1].config, buildSystem: 'unbuild', styling: 'css' };
+
+        const result = await generateWorkspace({ ...workspace, packages });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('packages/ui: unbuild can\'t bundle "css" styles');
+        expect(await fs.readdir(root)).toEqual([]);
+    });
+});
+
+describe('pnpm workspace', () => {
+    beforeEach(async () => {
+        await fs.writeFile(path.join(root, 'pnpm-workspace.yaml'), "packages:\n  - 'packages/*'\n  - 'apps/*'\n  - '!**/test/**'\n");
+        await fs.writeJson(path.join(root, 'tsconfig.base.json'), { compilerOptions: { strict: true } });
+        await fs.writeFile(path.join(root, 'eslint.config.js'), 'export default [];\n');
+        await fs.ensureDir(path.join(root, 'apps', 'web', 'src'));
+    });
+
+    it('is found from a directory inside it', async () => {
+        const workspace = await findWorkspaceRoot(path.join(root, 'apps', 'web', 'src'));
+
+        expect(workspace).toEqual({
+            root,
+            configFile: 'pnpm-workspace.yaml',
+            globs: ['packages/*', 'apps/*'],
+            packageManager: 'pnpm',
+        });
+    });
+
+    it('places a package under the glob directory the command runs in, else the first', async () => {
+        const workspace = (await findWorkspaceRoot(root))!;
+
+        expect(getWorkspacePlacement(workspace, '@acme/ui', root)).toEqual({ dir: 'packages/ui', unlisted: false });
+        expect(getWorkspacePlacement(workspace, 'ui', path.join(root, 'apps'))).toEqual({ dir: 'apps/ui', unlisted: false });
+    });
+
+    it('extends the root tsconfig and lint config', async () => {
+        const workspace = (await findWorkspaceRoot(root))!;
+
+        expect(await getWorkspaceMembership(workspace, 'packages/ui')).toEqual({
+            root: '../..',
+            tsconfig: '../../tsconfig.base.json',
+            eslintConfig: '../../eslint.config.js',
+            referenced: true,
+        });
+    });
+
+    it('creates a solution-style root tsconfig.json referencing the package', async () => {
+        const workspace = (await findWorkspaceRoot(root))!;
+
+        expect(await registerWorkspacePackage(workspace, { dir: 'packages/ui', unlisted: false })).toEqual(['tsconfig.json']);
+        expect(await fs.readJson(path.join(root, 'tsconfig.json'))).toEqual({
+            files: [],
+            references: [{ path: './packages/ui' }],
+        });
+
+        // Registering again changes nothing
+        expect(await registerWorkspacePackage(workspace, { dir: 'packages/ui', unlisted: false })).toEqual([]);
+    });
+});
+
+describe('npm workspace listing packages one by one', () => {
+    beforeEach(async () => {
+        await fs.writeJson(path.join(root, 'package.json'), { name: 'acme', private: true, workspaces: ['libs/core'] });
+        await fs.writeJson(path.join(root, 'package-lock.json'), {});
+        await fs.writeJson(path.join(root, 'tsconfig.json'), {
+            compilerOptions: { strict: true },
+            references: [{ path: './libs/core' }],
+        });
+    });
+
+    it('places the package next to the others and lists it', async () => {
+        const workspace = (await findWorkspaceRoot(root))!;
+        expect(workspace.packageManager).toBe('npm');
+
+        const placement = getWorkspacePlacement(workspace, 'utils', root);
+        expect(placement).toEqual({ dir: 'libs/utils', unlisted: true });
+
+        expect(await registerWorkspacePackage(workspace, placement)).toEqual(['tsconfig.json', 'package.json']);
+        expect((await fs.readJson(path.join(root, 'package.json'))).workspaces).toEqual(['libs/core', 'libs/utils']);
+        expect((await fs.readJson(path.join(root, 'tsconfig.json'))).references).toEqual([
+            { path: './libs/core' },
+            { path: './libs/utils' },
+        ]);
+    });
+
+    it('extends a root tsconfig.json that has compiler options', async () => {
+        const workspace = (await findWorkspaceRoot(root))!;
+
+        expect(await getWorkspaceMembership(workspace, 'libs/utils')).toMatchObject({
+            tsconfig: '../../tsconfig.json',
+            eslintConfig: undefined,
+            referenced: true,
+        });
+    });
+});